@@ -2,26 +2,54 @@ import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Toolbar } from './components/Toolbar';
 import { PropertiesPanel } from './components/PropertiesPanel';
 import { CanvasLayer } from './components/CanvasLayer';
-import { MaskConfig, DEFAULT_MASK_CONFIG, MaskType } from './types';
-import { Image as ImageIcon, Upload, Download, Sparkles, Layers, Undo2, Redo2, X, ZoomIn, ZoomOut, ArrowUpDown, Loader2, Maximize, RotateCcw, Scan, Target } from 'lucide-react';
-import { generateBackgroundImage, upscaleImage } from './services/geminiService';
+import { MaskStackPanel } from './components/MaskStackPanel';
+import { LayersPanel } from './components/LayersPanel';
+import { LayerTransformPanel } from './components/LayerTransformPanel';
+import { DocumentSizeDialog } from './components/DocumentSizeDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { SessionRecoveryDialog } from './components/SessionRecoveryDialog';
+import { ProviderSettingsDialog } from './components/ProviderSettingsDialog';
+import { AiEditDialog } from './components/AiEditDialog';
+import { MaskConfig, DEFAULT_MASK_CONFIG, MaskType, LayerFit, Point, Size, ExportOptions, ExportContent, Transform, AiEditOptions, AiEditMode, AiEditSource, AiEditTarget, HistoryEntry, LayerImages, MaskAssets, SvgShape } from './types';
+import { activateLayer, addMaskItem, createId, createLayer, createMaskItem, expandMaskConfig, getActiveLayer, getAnchoredInsets, getSelectedItem, getStrokeShape, isBrushType, renderMaskCanvas, resetLayerTransform, updateLayer, updateMaskItem } from './utils/maskUtils';
+import { CompositeSource, maskToMatte, renderComposite, renderMaskedForeground, renderMaskMatte, renderThumbnail } from './utils/renderComposite';
+import { blendThroughMask, clipToMask, getOutpaintInsets, padForOutpaint, renderEditSource } from './utils/inpaintUtils';
+import { downloadCanvas, downloadText } from './utils/exportUtils';
+import { layerMaskToSvg } from './utils/svgExport';
+import { PROJECT_EXTENSION, parseProject, serializeProject } from './utils/projectFile';
+import { loadImage } from './utils/imageUtils';
+import { detectRasterChannel, imageToRasterMask, preloadRasterImages } from './utils/rasterMask';
+import { BUILT_IN_FONTS, loadFontFile, loadMaskFonts } from './utils/fontUtils';
+import { parseSvgMarkup, parseSvgText } from './utils/svgShape';
+import { Image as ImageIcon, Download, Sparkles, Layers, Undo2, Redo2, X, ZoomIn, ZoomOut, Maximize, RotateCcw, Scan, Target, Shapes, Save, FolderOpen, Settings, Wand2, Ratio } from 'lucide-react';
+import { generateBackgroundImage, getProviderSettings, inpaintImage, saveProviderSettings, segmentImage, upscaleImage } from './services/imageProvider';
+import { ProviderSettings } from './services/providerTypes';
+import { SessionSummary, createAutosaver, listSessions, loadSession } from './services/sessionStore';
 
-interface Transform {
-  x: number;
-  y: number;
-  scale: number;
-}
+const AUTOSAVE_DELAY = 1500;
 
 export default function App() {
   const [maskConfig, setMaskConfig] = useState<MaskConfig>(DEFAULT_MASK_CONFIG);
-  const [img1, setImg1] = useState<HTMLImageElement | null>(null);
-  const [img2, setImg2] = useState<HTMLImageElement | null>(null);
+  // Layer pixels live outside the mask config so undo history stays light; entries are never dropped, so undoing a delete brings the image back
+  const [images, setImages] = useState<LayerImages>({});
+  // Raster mask bitmaps and font files, kept out of the config for the same reason and never dropped either
+  const [assets, setAssets] = useState<MaskAssets>({});
   const [canvasSize, setCanvasSize] = useState({ width: window.innerWidth, height: window.innerHeight * 0.6 });
   const [isGenerating, setIsGenerating] = useState(false);
-  const [upscalingLayer, setUpscalingLayer] = useState<1 | 2 | null>(null);
+  const [upscalingLayerId, setUpscalingLayerId] = useState<string | null>(null);
   const [prompt, setPrompt] = useState('');
   const [showGenModal, setShowGenModal] = useState(false);
   const [showLayers, setShowLayers] = useState(false);
+  const [showMaskStack, setShowMaskStack] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [showAiEdit, setShowAiEdit] = useState(false);
+  const [isAiEditing, setIsAiEditing] = useState(false);
+  const [isSegmenting, setIsSegmenting] = useState(false);
+  const [showDocumentSize, setShowDocumentSize] = useState(false);
+  // Once a size is picked by hand, loading images no longer resizes the document
+  const [hasExplicitSize, setHasExplicitSize] = useState(false);
   
   // Viewport Transform State
   const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, scale: 1 });
@@ -41,17 +69,71 @@ export default function App() {
   useEffect(() => { transformRef.current = transform; }, [transform]);
 
   // History State
-  const [past, setPast] = useState<MaskConfig[]>([]);
-  const [future, setFuture] = useState<MaskConfig[]>([]);
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
 
-  const fileInput1Ref = useRef<HTMLInputElement>(null);
-  const fileInput2Ref = useRef<HTMLInputElement>(null);
+  const layerImageInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<string | null>(null); // Layer the single image picker fills
+  const addLayersInputRef = useRef<HTMLInputElement>(null);
   const fileInputBothRef = useRef<HTMLInputElement>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  // Session Recovery
+  const sessionIdRef = useRef(createId());
+  const [autosaver] = useState(() => createAutosaver(AUTOSAVE_DELAY));
+  const [recoverableSessions, setRecoverableSessions] = useState<SessionSummary[]>([]);
+
+  useEffect(() => {
+      listSessions()
+          .then(setRecoverableSessions)
+          .catch(err => console.error("Error listing sessions:", err));
+  }, []);
+
+  const hasImages = maskConfig.layers.some(layer => images[layer.id]);
+  const activeLayer = getActiveLayer(maskConfig);
+
+  // Autosave whenever the images or mask (including its history) change
+  useEffect(() => {
+      if (!hasImages) return;
+      autosaver.schedule(() => {
+          const source = { images, assets, maskConfig, width: canvasSize.width, height: canvasSize.height };
+          return {
+              id: sessionIdRef.current,
+              images,
+              assets,
+              maskConfig,
+              past,
+              future,
+              canvasSize,
+              transform: transformRef.current,
+              thumbnail: renderThumbnail(source)
+          };
+      });
+  }, [autosaver, hasImages, images, assets, maskConfig, past, future, canvasSize]);
+
+  const handleRestoreSession = async (id: string) => {
+      setRecoverableSessions([]);
+      try {
+          const session = await loadSession(id);
+          if (!session) return;
+          sessionIdRef.current = session.id;
+          setImages(session.images);
+          setAssets(session.assets);
+          setMaskConfig(session.maskConfig);
+          setPast(session.past);
+          setFuture(session.future);
+          setCanvasSize(session.canvasSize);
+          setTransform(session.transform);
+      } catch (err) {
+          console.error("Error restoring session:", err);
+          alert("Could not restore session.");
+      }
+  };
 
   // Initial Fit
   useEffect(() => {
       const updateSize = () => {
-          if (!img1 && !img2) {
+          if (!hasImages && !hasExplicitSize) {
              const maxWidth = window.innerWidth;
              const maxHeight = window.innerHeight * 0.7; 
              setCanvasSize({ width: maxWidth, height: maxHeight });
@@ -66,7 +148,7 @@ export default function App() {
       window.addEventListener('resize', updateSize);
       updateSize();
       return () => window.removeEventListener('resize', updateSize);
-  }, [img1, img2]);
+  }, [hasImages, hasExplicitSize]);
 
   // --- Robust Viewport Logic ---
 
@@ -233,16 +315,25 @@ export default function App() {
   // --- End Viewport Logic ---
 
   const saveHistory = () => {
-    setPast(prev => [...prev, maskConfig]);
+    setPast(prev => [...prev, { maskConfig, canvasSize }]);
     setFuture([]);
   };
 
+  // Crops and extends are undone with the mask, since its geometry only fits the size it was made for
+  const restoreHistory = (entry: HistoryEntry) => {
+    setMaskConfig(entry.maskConfig);
+    if (entry.canvasSize.width !== canvasSize.width || entry.canvasSize.height !== canvasSize.height) {
+        setCanvasSize(entry.canvasSize);
+        centerImage(entry.canvasSize.width, entry.canvasSize.height);
+    }
+  };
+
   const undo = () => {
     if (past.length === 0) return;
     const previous = past[past.length - 1];
     const newPast = past.slice(0, past.length - 1);
-    setFuture(prev => [maskConfig, ...prev]);
-    setMaskConfig(previous);
+    setFuture(prev => [{ maskConfig, canvasSize }, ...prev]);
+    restoreHistory(previous);
     setPast(newPast);
   };
 
@@ -250,57 +341,43 @@ export default function App() {
     if (future.length === 0) return;
     const next = future[0];
     const newFuture = future.slice(1);
-    setPast(prev => [...prev, maskConfig]);
-    setMaskConfig(next);
+    setPast(prev => [...prev, { maskConfig, canvasSize }]);
+    restoreHistory(next);
     setFuture(newFuture);
   };
 
   const handleClearMask = () => {
+    const selected = getSelectedItem(maskConfig);
+    if (!selected) return;
     saveHistory();
-    const currentType = maskConfig.type;
-    const currentShape = (currentType === MaskType.BRUSH || currentType === MaskType.PEN) 
-        ? MaskType.NONE 
-        : maskConfig.shape;
-    
-    setMaskConfig(prev => ({
-        ...DEFAULT_MASK_CONFIG,
-        type: currentType,
-        shape: currentShape,
-        brushSize: prev.brushSize,
-        fontSize: prev.fontSize,
-        brushPoints: [] 
-    }));
+
+    // Brush items lose their strokes, paths their anchors, shapes go back to their default placement
+    const { x, y, scaleX, scaleY, skewX, skewY, rotation } = createMaskItem(selected.shape);
+    setMaskConfig(prev => updateMaskItem(prev, selected.id, isBrushType(selected.shape)
+        ? { strokes: [] }
+        : selected.shape === MaskType.PATH
+            ? { anchors: [], closed: false }
+            : { x, y, scaleX, scaleY, skewX, skewY, rotation }
+    ));
   };
 
-  const handleSwapLayers = () => {
-    saveHistory();
-    setImg1(img2);
-    setImg2(img1);
-  };
-
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>, target: 1 | 2) => {
-    if (e.target.files && e.target.files[0]) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          if (target === 1) {
-            setImg1(img);
-            setCanvasSize({ width: img.width, height: img.height });
-            centerImage(img.width, img.height);
-          } else {
-            setImg2(img);
-            if (!img1) {
-                setCanvasSize({ width: img.width, height: img.height });
-                centerImage(img.width, img.height);
-            }
-          }
-          setShowLayers(false);
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(e.target.files[0]);
+  const handleSelectTool = (type: MaskType) => {
+    if (type === MaskType.HAND || type === MaskType.MOVE || type === MaskType.NONE) {
+        setMaskConfig(prev => ({ ...prev, type }));
+        return;
+    }
+
+    // Keep editing the selected item if it already matches the tool, otherwise stack a new one
+    const selected = getSelectedItem(maskConfig);
+    const shape = getStrokeShape(type);
+    if (selected && selected.shape === shape) {
+        setMaskConfig(prev => ({ ...prev, type }));
+        return;
     }
+
+    saveHistory();
+    const item = createMaskItem(shape, selected ? { fontSize: selected.fontSize, textStyle: selected.textStyle } : {});
+    setMaskConfig(prev => ({ ...addMaskItem(prev, item), type }));
   };
 
   const loadFile = (file: File): Promise<HTMLImageElement> => {
@@ -316,21 +393,77 @@ export default function App() {
     });
   };
 
+  // Puts each image into its layer; a null or missing layer id adds a new layer on top.
+  // The document takes the size of the first image when nothing else is loaded yet.
+  const assignLayerImages = (assignments: [string | null, HTMLImageElement][], sizeFrom = assignments[0]?.[1]) => {
+    let config = maskConfig;
+    const next = { ...images };
+    assignments.forEach(([layerId, img]) => {
+        let id = layerId && config.layers.some(layer => layer.id === layerId) ? layerId : null;
+        if (!id) {
+            const layer = createLayer({ name: `Layer ${config.layers.length + 1}` });
+            config = activateLayer({ ...config, layers: [...config.layers, layer] }, layer.id);
+            id = layer.id;
+        }
+        next[id] = img;
+    });
+
+    if (config !== maskConfig) {
+        saveHistory();
+        setMaskConfig(config);
+    }
+    setImages(next);
+    if (!hasImages && !hasExplicitSize && sizeFrom) {
+        setCanvasSize({ width: sizeFrom.width, height: sizeFrom.height });
+        centerImage(sizeFrom.width, sizeFrom.height);
+    }
+    setShowLayers(false);
+  };
+
+  const openLayerImagePicker = (layerId: string | null) => {
+    if (!layerId) {
+        addLayersInputRef.current?.click();
+        return;
+    }
+    uploadTargetRef.current = layerId;
+    layerImageInputRef.current?.click();
+  };
+
+  const handleLayerImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        assignLayerImages([[uploadTargetRef.current, await loadFile(file)]]);
+    } catch (err) {
+        console.error("Error loading image", err);
+    }
+  };
+
+  const handleAddLayers = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+        const loaded = await Promise.all(files.map(loadFile));
+        assignLayerImages(loaded.map(img => [null, img]));
+    } catch (err) {
+        console.error("Error loading images", err);
+    }
+  };
+
+  // The first image goes on top and the second underneath it, like the original foreground/background pair
   const handleDualUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!e.target.files || e.target.files.length === 0) return;
-    const files = Array.from(e.target.files);
-    
+    const files = Array.from(e.target.files ?? []) as File[];
+    e.target.value = '';
+    if (files.length === 0) return;
+    const { layers } = maskConfig;
+    const top = layers[layers.length - 1]?.id ?? null;
+    const bottom = layers.length > 1 ? layers[0].id : null;
+
     try {
-        const image1 = await loadFile(files[0] as File);
-        setImg1(image1);
-        setCanvasSize({ width: image1.width, height: image1.height });
-        centerImage(image1.width, image1.height);
-
-        if (files.length > 1) {
-            const image2 = await loadFile(files[1] as File);
-            setImg2(image2);
-        }
-        setShowLayers(false);
+        const [first, second] = await Promise.all(files.slice(0, 2).map(loadFile));
+        assignLayerImages(second ? [[bottom, second], [top, first]] : [[top, first]], first);
     } catch (err) {
         console.error("Error loading images", err);
     }
@@ -348,76 +481,313 @@ export default function App() {
     return "";
   }
 
-  const handleUpscaleLayer = async (target: 1 | 2) => {
-     const img = target === 1 ? img1 : img2;
+  const handleUpscaleLayer = async (layerId: string) => {
+     const img = images[layerId];
      if (!img) return;
 
-     setUpscalingLayer(target);
+     setUpscalingLayerId(layerId);
      
      try {
-        const base64 = getImageBase64(img);
-        if (base64) {
-            const result = await upscaleImage(base64);
-            if (result) {
-                const newImg = new Image();
-                newImg.onload = () => {
-                    if (target === 1) {
-                        setImg1(newImg);
-                        const ratio = newImg.width / img.width;
-                        setCanvasSize({ width: newImg.width, height: newImg.height });
-                        
-                        setMaskConfig(prev => ({
-                            ...prev,
-                            fontSize: prev.fontSize * ratio,
-                            brushSize: prev.brushSize * ratio,
-                            brushPoints: prev.brushPoints.map(stroke => 
-                                stroke.map(p => ({ x: p.x * ratio, y: p.y * ratio }))
-                            )
-                        }));
-                        setTransform(prev => ({ ...prev, scale: prev.scale / ratio }));
-                    }
-                    else setImg2(newImg);
-                    setUpscalingLayer(null);
-                }
-                newImg.src = result;
-            } else {
-                alert("Upscale failed. Please try again.");
-                setUpscalingLayer(null);
-            }
+        const result = await upscaleImage(getImageBase64(img));
+        const newImg = await loadImage(result);
+        setImages(prev => ({ ...prev, [layerId]: newImg }));
+        // A layer that defines the document size takes the document with it; other layers just get sharper.
+        // Mask geometry is resolution-free, so only layers drawn at their original pixel size need adjusting.
+        const ratio = newImg.width / img.width;
+        if (img.width === canvasSize.width && img.height === canvasSize.height) {
+            setCanvasSize({ width: newImg.width, height: newImg.height });
+            setMaskConfig(prev => ({
+                ...prev,
+                layers: prev.layers.map(layer => (layer.fit === LayerFit.ORIGINAL && layer.id !== layerId
+                    ? { ...layer, scale: layer.scale * ratio }
+                    : layer
+                )),
+            }));
+            setTransform(prev => ({ ...prev, scale: prev.scale / ratio }));
+        } else {
+            // Original-size layers would grow with their pixels, so they shrink back to the same footprint
+            setMaskConfig(prev => {
+                const layer = prev.layers.find(l => l.id === layerId);
+                return layer?.fit === LayerFit.ORIGINAL ? updateLayer(prev, layerId, { scale: layer.scale / ratio }) : prev;
+            });
         }
      } catch (e) {
-         console.error(e);
-         setUpscalingLayer(null);
+         console.error("Error upscaling layer:", e);
+         alert(e instanceof Error ? e.message : "Upscale failed. Please try again.");
+     } finally {
+         setUpscalingLayerId(null);
      }
   };
 
   const handleGenerateBackground = async () => {
     if (!prompt) return;
     setIsGenerating(true);
-    const base64 = await generateBackgroundImage(prompt);
-    if (base64) {
-      const img = new Image();
-      img.onload = () => {
-        setImg2(img);
-        setIsGenerating(false);
-        setShowGenModal(false);
+    try {
+      const base64 = await generateBackgroundImage(prompt);
+      // Backgrounds fill the bottom layer
+      assignLayerImages([[maskConfig.layers[0]?.id ?? null, await loadImage(base64)]]);
+      setShowGenModal(false);
+    } catch (e) {
+      console.error("Error generating background:", e);
+      alert(e instanceof Error ? e.message : "Failed.");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleAiEdit = async (options: AiEditOptions) => {
+    setIsAiEditing(true);
+    try {
+      const source: CompositeSource = {
+          images,
+          assets,
+          maskConfig,
+          width: canvasSize.width,
+          height: canvasSize.height
       };
-      img.src = base64;
-    } else {
-        setIsGenerating(false);
-        alert("Failed.");
+      await Promise.all([preloadRasterImages(maskConfig, assets), loadMaskFonts(maskConfig, assets)]);
+      const original = renderEditSource(source, options.source);
+      if (!original) throw new Error("That layer is empty.");
+
+      // Outpainting is inpainting of a grown canvas whose mask is the new border
+      const insets = options.mode === AiEditMode.OUTPAINT ? getOutpaintInsets(canvasSize, options.expand) : null;
+      const { image, mask } = insets
+          ? padForOutpaint(original, insets)
+          : { image: original, mask: activeLayer && renderMaskCanvas(activeLayer, canvasSize.width, canvasSize.height, assets) };
+      if (!mask) throw new Error("Could not render the mask.");
+
+      const result = await loadImage(await inpaintImage(
+          image.toDataURL('image/png'),
+          maskToMatte(mask).toDataURL('image/png'),
+          options.prompt
+      ));
+      // An inpainted new layer only holds the generated pixels, so the stack below keeps showing through
+      const isPatch = options.target === AiEditTarget.NEW_LAYER && !insets;
+      const output = await loadImage((isPatch
+          ? clipToMask(result, mask, image.width, image.height)
+          : blendThroughMask(image, result, mask)
+      ).toDataURL('image/png'));
+
+      let config = insets ? expandMaskConfig(maskConfig, canvasSize, insets, images) : maskConfig;
+      if (options.target === AiEditTarget.NEW_LAYER) {
+          // Stacked right above the active layer, which it then replaces as the one being edited
+          const layer = createLayer({ name: options.mode === AiEditMode.INPAINT ? 'Inpaint' : 'Outpaint' });
+          const index = config.layers.findIndex(l => l.id === config.activeLayerId) + 1 || config.layers.length;
+          const layers = [...config.layers];
+          layers.splice(index, 0, layer);
+          config = activateLayer({ ...config, layers }, layer.id);
+          setImages(prev => ({ ...prev, [layer.id]: output }));
+      } else if (activeLayer) {
+          // The output takes the layer's place under a new id, so undo finds the original image under the old one.
+          // It is already in document space, so the layer's own placement would apply twice.
+          const replaced = config.layers.find(l => l.id === activeLayer.id) ?? activeLayer;
+          const layer = createLayer(replaced);
+          config = {
+              ...config,
+              layers: config.layers.map(l => (l.id === replaced.id ? layer : l)),
+              activeLayerId: layer.id,
+          };
+          config = resetLayerTransform(config, layer.id);
+          setImages(prev => ({ ...prev, [layer.id]: output }));
+      }
+      if (config !== maskConfig) {
+          saveHistory();
+          setMaskConfig(config);
+      }
+      if (insets) {
+          setCanvasSize({ width: output.width, height: output.height });
+          centerImage(output.width, output.height);
+      }
+      setShowAiEdit(false);
+    } catch (e) {
+      console.error("Error editing image:", e);
+      alert(e instanceof Error ? e.message : "AI edit failed.");
+    } finally {
+      setIsAiEditing(false);
     }
   };
 
-  const handleExport = () => {
-      const canvas = document.querySelector('canvas');
-      if(canvas) {
-          const link = document.createElement('a');
-          link.download = 'mask-master.png';
-          link.href = canvas.toDataURL('image/png');
-          link.click();
+  // Adds the provider's segmentation of the active layer as a raster item, ready to refine with the brushes
+  const handleSelectSubject = async () => {
+    if (!activeLayer || !images[activeLayer.id]) return;
+    setIsSegmenting(true);
+    try {
+      const source = renderEditSource(
+          { images, assets, maskConfig, width: canvasSize.width, height: canvasSize.height },
+          AiEditSource.LAYER
+      );
+      if (!source) throw new Error("Could not read the layer.");
+      const matte = await loadImage(await segmentImage(source.toDataURL('image/png')));
+      addRasterMask(imageToRasterMask(matte, canvasSize.width, canvasSize.height, 'luminance'));
+    } catch (e) {
+      console.error("Error selecting subject:", e);
+      alert(e instanceof Error ? e.message : "Could not find a subject.");
+    } finally {
+      setIsSegmenting(false);
+    }
+  };
+
+  const addRasterMask = (image: string) => {
+      const imageId = createId();
+      const item = createMaskItem(MaskType.RASTER, { imageId });
+      setAssets(prev => ({ ...prev, [imageId]: image }));
+      saveHistory();
+      setMaskConfig(prev => ({ ...addMaskItem(prev, item), type: MaskType.RASTER }));
+  };
+
+  const addSvgShape = (svg: SvgShape) => {
+      const item = createMaskItem(MaskType.SVG, { svg });
+      saveHistory();
+      setMaskConfig(prev => ({ ...addMaskItem(prev, item), type: MaskType.SVG }));
+  };
+
+  // Pasted SVG markup or bare path data
+  const handleImportSvg = (text: string) => {
+      try {
+          addSvgShape(parseSvgText(text));
+      } catch (err) {
+          console.error("Error importing SVG:", err);
+          alert(err instanceof Error ? err.message : "Could not read that SVG.");
       }
-  }
+  };
+
+  const handleImportMask = async (file: File) => {
+      // SVG files become vector shapes rather than raster mattes
+      if (file.type === 'image/svg+xml' || file.name.toLowerCase().endsWith('.svg')) {
+          try {
+              addSvgShape(parseSvgMarkup(await file.text(), file.name.replace(/\.svg$/i, '')));
+          } catch (err) {
+              console.error("Error importing SVG:", err);
+              alert(err instanceof Error ? err.message : "Could not read that SVG.");
+          }
+          return;
+      }
+      try {
+          const img = await loadFile(file);
+          addRasterMask(imageToRasterMask(img, canvasSize.width, canvasSize.height, detectRasterChannel(img), 'contain'));
+      } catch (err) {
+          console.error("Error importing mask:", err);
+          alert("Could not read that image as a mask.");
+      }
+  };
+
+  // Adds the font to the project and switches the selected text to it
+  const handleLoadFont = async (file: File) => {
+      try {
+          const font = await loadFontFile(file);
+          // Built-in names are taken too, so a file can't replace the app's own fonts
+          const taken = new Set([...BUILT_IN_FONTS, ...maskConfig.fonts.map(f => f.family)]);
+          let family = font.family;
+          for (let n = 2; taken.has(family); n++) family = `${font.family} ${n}`;
+          const assetId = createId();
+          setAssets(prev => ({ ...prev, [assetId]: font.src }));
+          saveHistory();
+          setMaskConfig(prev => {
+              const selected = getSelectedItem(prev);
+              const next = { ...prev, fonts: [...prev.fonts, { family, assetId }] };
+              return selected?.shape === MaskType.TEXT
+                  ? updateMaskItem(next, selected.id, { textStyle: { ...selected.textStyle, fontFamily: family } })
+                  : next;
+          });
+      } catch (err) {
+          console.error("Error loading font:", err);
+          alert("Could not read that file as a font.");
+      }
+  };
+
+  // Crops or extends the document around the anchor; masks and layers keep their place on the image
+  const handleResizeDocument = (size: Size, anchor: Point) => {
+      const insets = getAnchoredInsets(canvasSize, size, anchor);
+      saveHistory();
+      setMaskConfig(prev => expandMaskConfig(prev, canvasSize, insets, images));
+      setCanvasSize(size);
+      setHasExplicitSize(true);
+      centerImage(size.width, size.height);
+      setShowDocumentSize(false);
+  };
+
+  const handleSaveProviderSettings = (settings: ProviderSettings) => {
+      saveProviderSettings(settings);
+      setShowProviderSettings(false);
+  };
+
+  const handleExport = async (options: ExportOptions) => {
+      setIsExporting(true);
+      try {
+          await Promise.all([preloadRasterImages(maskConfig, assets), loadMaskFonts(maskConfig, assets)]);
+          const source: CompositeSource = {
+              images,
+              assets,
+              maskConfig,
+              width: canvasSize.width,
+              height: canvasSize.height
+          };
+          switch (options.content) {
+              case ExportContent.MASK_SVG:
+                  if (!activeLayer) throw new Error("Nothing to export");
+                  downloadText(
+                      layerMaskToSvg(activeLayer, canvasSize.width, canvasSize.height, assets, options.scale, maskConfig.fonts),
+                      'mask-master-mask.svg',
+                      'image/svg+xml'
+                  );
+                  break;
+              case ExportContent.MASK:
+              case ExportContent.FOREGROUND: {
+                  const canvas = options.content === ExportContent.MASK
+                      ? renderMaskMatte(source, options.scale)
+                      : renderMaskedForeground(source, options.scale);
+                  if (!canvas) throw new Error("Nothing to export");
+                  await downloadCanvas(canvas, `mask-master-${options.content}`, options.format, options.quality);
+                  break;
+              }
+              default:
+                  await downloadCanvas(renderComposite(source, { scale: options.scale }), 'mask-master', options.format, options.quality);
+          }
+          setShowExportDialog(false);
+      } catch (e) {
+          console.error("Error exporting image:", e);
+          alert("Export failed. Try a smaller size.");
+      } finally {
+          setIsExporting(false);
+      }
+  };
+
+  const handleSaveProject = () => {
+      try {
+          const json = serializeProject({
+              images,
+              assets,
+              maskConfig,
+              canvasSize,
+              transform
+          });
+          downloadText(json, `mask-master.${PROJECT_EXTENSION}`, 'application/json');
+      } catch (e) {
+          console.error("Error saving project:", e);
+          alert("Could not save project.");
+      }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+          const project = await parseProject(await file.text());
+          setImages(project.images);
+          setAssets(project.assets);
+          setMaskConfig(project.maskConfig);
+          setCanvasSize(project.canvasSize);
+          setTransform(project.transform);
+          setPast([]);
+          setFuture([]);
+          setShowLayers(false);
+      } catch (err) {
+          console.error("Error opening project:", err);
+          alert(err instanceof Error ? err.message : "Could not open project.");
+      }
+  };
 
   const handleZoomIn = () => setTransform(prev => ({ ...prev, scale: Math.min(prev.scale * 1.25, 20) }));
   const handleZoomOut = () => setTransform(prev => ({ ...prev, scale: Math.max(prev.scale * 0.8, 0.05) }));
@@ -427,7 +797,8 @@ export default function App() {
   };
 
   const handleResetView = () => {
-      setMaskConfig(prev => ({ ...prev, rotation: 0 }));
+      if (!maskConfig.selectedId) return;
+      setMaskConfig(prev => updateMaskItem(prev, maskConfig.selectedId as string, { rotation: 0 }));
   };
 
   const handleCenterView = () => {
@@ -448,6 +819,27 @@ export default function App() {
             >
                 <Sparkles size={12} className="text-white" />
             </button>
+            <button 
+                onClick={() => setShowMaskStack(!showMaskStack)}
+                className={`w-6 h-6 rounded-full flex items-center justify-center transition-colors ${showMaskStack ? 'bg-white text-black' : 'bg-slate-800 text-slate-300'}`}
+            >
+                <Shapes size={12} />
+            </button>
+            <button 
+                onClick={() => setShowAiEdit(true)}
+                disabled={!hasImages}
+                className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-purple-300 disabled:opacity-30"
+                title="AI Edit"
+            >
+                <Wand2 size={12} />
+            </button>
+            <button 
+                onClick={() => setShowProviderSettings(true)}
+                className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-slate-300"
+                title="AI Settings"
+            >
+                <Settings size={12} />
+            </button>
          </div>
          <div className="flex items-center gap-1 bg-slate-900/50 p-1 rounded-full border border-white/5">
             <button onClick={undo} disabled={past.length === 0} className="p-1 rounded-full hover:bg-white/10 disabled:opacity-30 transition-colors">
@@ -459,6 +851,27 @@ export default function App() {
             </button>
          </div>
          <div className="flex items-center gap-2">
+            <button 
+                onClick={() => projectInputRef.current?.click()}
+                className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-slate-300"
+                title="Open Project"
+            >
+                <FolderOpen size={12} />
+            </button>
+            <button 
+                onClick={handleSaveProject}
+                className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-slate-300"
+                title="Save Project"
+            >
+                <Save size={12} />
+            </button>
+            <button 
+                onClick={() => setShowDocumentSize(true)}
+                className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-slate-300"
+                title="Document Size"
+            >
+                <Ratio size={12} />
+            </button>
             <button 
                 onClick={() => setShowLayers(!showLayers)}
                 className={`w-6 h-6 rounded-full flex items-center justify-center transition-colors ${showLayers ? 'bg-white text-black' : 'bg-slate-800 text-slate-300'}`}
@@ -466,7 +879,7 @@ export default function App() {
                 <Layers size={12} />
             </button>
             <button 
-                onClick={handleExport}
+                onClick={() => setShowExportDialog(true)}
                 className="w-6 h-6 rounded-full bg-slate-800 flex items-center justify-center text-indigo-400 border border-indigo-500/30"
             >
                 <Download size={12} />
@@ -474,110 +887,30 @@ export default function App() {
          </div>
       </div>
 
+      {/* Mask Stack Modal */}
+      {showMaskStack && (
+          <MaskStackPanel 
+            config={maskConfig}
+            onChange={setMaskConfig}
+            onHistorySave={saveHistory}
+            onSelectSubject={activeLayer && images[activeLayer.id] ? handleSelectSubject : undefined}
+            isSegmenting={isSegmenting}
+            onImportMask={handleImportMask}
+            onImportSvg={handleImportSvg}
+          />
+      )}
+
       {/* Layers Modal */}
       {showLayers && (
-          <div className="fixed top-11 right-2 z-50 bg-slate-900 border border-white/10 rounded-lg shadow-2xl p-1.5 w-48 animate-in slide-in-from-top-5 duration-200 origin-top-right opacity-[0.35]">
-              <h3 className="text-[8px] font-bold text-slate-500 uppercase mb-1.5 flex justify-between items-center">
-                  <span>Layers</span>
-                  <span className="text-[6px] text-amber-500/80">PRO TOOLS</span>
-              </h3>
-              <div className="relative flex flex-col gap-1.5">
-                  <div className="flex items-center gap-1.5 bg-slate-800 rounded-sm p-1 group">
-                      <button 
-                        onClick={() => fileInput1Ref.current?.click()}
-                        className="flex-1 flex items-center gap-2 hover:bg-slate-700 rounded-sm transition-colors min-w-0"
-                      >
-                          <div className="w-6 h-6 bg-indigo-500/20 rounded flex items-center justify-center text-indigo-400 overflow-hidden relative shrink-0">
-                              {img1 ? (
-                                <img src={img1.src} className="w-full h-full object-cover" />
-                              ) : (
-                                <ImageIcon size={12} />
-                              )}
-                              <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                                <Upload size={10} className="text-white"/>
-                              </div>
-                          </div>
-                          <div className="text-left truncate">
-                              <div className="text-[9px] font-bold text-white leading-tight truncate">Foreground</div>
-                              <div className="text-[7px] text-slate-400 leading-tight truncate">{img1 ? 'Change' : 'Upload'}</div>
-                          </div>
-                      </button>
-                      {img1 && (
-                          <button 
-                             onClick={(e) => { e.stopPropagation(); handleUpscaleLayer(1); }}
-                             disabled={upscalingLayer === 1}
-                             className="h-5 px-1.5 gap-0.5 flex items-center justify-center rounded bg-gradient-to-r from-amber-500/10 to-orange-500/10 hover:from-amber-500 hover:to-orange-500 border border-amber-500/30 hover:border-amber-500 text-amber-500 hover:text-white transition-all shrink-0 active:scale-95"
-                          >
-                             {upscalingLayer === 1 ? <Loader2 size={10} className="animate-spin" /> : (
-                                 <>
-                                  <Sparkles size={8} />
-                                  <span className="text-[6px] font-bold uppercase">4K</span>
-                                 </>
-                             )}
-                          </button>
-                      )}
-                  </div>
-
-                   <div className="absolute top-1/2 left-6 -translate-x-1/2 -translate-y-1/2 z-10 pointer-events-none">
-                      <div className="w-4 h-4 flex items-center justify-center pointer-events-auto">
-                        <button 
-                            onClick={handleSwapLayers}
-                            className="w-4 h-4 bg-slate-900 border border-slate-600 rounded-full flex items-center justify-center text-slate-400 hover:text-white hover:border-indigo-500 hover:bg-indigo-600 shadow-sm transition-all active:scale-90"
-                        >
-                            <ArrowUpDown size={8} />
-                        </button>
-                      </div>
-                   </div>
-
-                  <div className="flex items-center gap-1.5 bg-slate-800 rounded-sm p-1 group">
-                      <button 
-                        onClick={() => fileInput2Ref.current?.click()}
-                        className="flex-1 flex items-center gap-2 hover:bg-slate-700 rounded-sm transition-colors min-w-0"
-                      >
-                           <div className="w-6 h-6 bg-purple-500/20 rounded flex items-center justify-center text-purple-400 overflow-hidden relative shrink-0">
-                              {img2 ? (
-                                  <img src={img2.src} className="w-full h-full object-cover" />
-                              ) : (
-                                  <ImageIcon size={12} />
-                              )}
-                               <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-                                 <Upload size={10} className="text-white"/>
-                              </div>
-                          </div>
-                          <div className="text-left truncate">
-                              <div className="text-[9px] font-bold text-white leading-tight truncate">Background</div>
-                              <div className="text-[7px] text-slate-400 leading-tight truncate">{img2 ? 'Change' : 'Upload'}</div>
-                          </div>
-                      </button>
-                       {img2 && (
-                          <button 
-                             onClick={(e) => { e.stopPropagation(); handleUpscaleLayer(2); }}
-                             disabled={upscalingLayer === 2}
-                             className="h-5 px-1.5 gap-0.5 flex items-center justify-center rounded bg-gradient-to-r from-amber-500/10 to-orange-500/10 hover:from-amber-500 hover:to-orange-500 border border-amber-500/30 hover:border-amber-500 text-amber-500 hover:text-white transition-all shrink-0 active:scale-95"
-                          >
-                             {upscalingLayer === 2 ? <Loader2 size={10} className="animate-spin" /> : (
-                                 <>
-                                  <Sparkles size={8} />
-                                  <span className="text-[6px] font-bold uppercase">4K</span>
-                                 </>
-                             )}
-                          </button>
-                      )}
-                  </div>
-                  
-                  <div className="h-px bg-white/5 my-0.5"></div>
-                  <button 
-                      onClick={() => fileInputBothRef.current?.click()}
-                      className="w-full py-2 flex items-center justify-center gap-2 bg-slate-800/50 hover:bg-slate-800 border border-dashed border-slate-700/50 hover:border-slate-500/50 rounded-sm transition-all group"
-                  >
-                       <div className="flex -space-x-1.5 opacity-60 group-hover:opacity-100 transition-opacity">
-                           <div className="w-3 h-3 rounded-full bg-indigo-500/20 border border-indigo-500/50"></div>
-                           <div className="w-3 h-3 rounded-full bg-purple-500/20 border border-purple-500/50"></div>
-                       </div>
-                       <span className="text-[9px] font-bold text-slate-400 group-hover:text-white">Replace Pair</span>
-                  </button>
-              </div>
-          </div>
+          <LayersPanel 
+            config={maskConfig}
+            images={images}
+            onChange={setMaskConfig}
+            onHistorySave={saveHistory}
+            onUploadImage={openLayerImagePicker}
+            onUpscaleLayer={handleUpscaleLayer}
+            upscalingLayerId={upscalingLayerId}
+          />
       )}
 
       {/* Main Workspace with Infinite Canvas */}
@@ -646,12 +979,12 @@ export default function App() {
             }}
             className={`relative origin-top-left ${maskConfig.type === MaskType.HAND ? 'cursor-grab active:cursor-grabbing' : ''}`}
          >
-            {(!img1 && !img2) ? (
+            {!hasImages ? (
                <div className="flex flex-col items-center justify-center w-full h-full animate-in fade-in duration-500 opacity-[0.35] border border-white/5 rounded-xl bg-slate-900/30 backdrop-blur-sm p-8">
                     
                     <div className="grid grid-cols-2 gap-4 w-64">
                         <button 
-                            onClick={() => fileInput1Ref.current?.click()}
+                            onClick={() => openLayerImagePicker(maskConfig.layers[maskConfig.layers.length - 1]?.id ?? null)}
                             className="group relative flex flex-col items-center justify-center aspect-square bg-slate-900/50 border-2 border-dashed border-slate-700 hover:border-indigo-500 hover:bg-slate-900/80 rounded-xl transition-all active:scale-95"
                         >
                             <div className="w-12 h-12 rounded-full bg-slate-800 flex items-center justify-center mb-3 group-hover:bg-indigo-500/20 group-hover:text-indigo-400 transition-colors">
@@ -662,7 +995,7 @@ export default function App() {
                         </button>
 
                         <button 
-                            onClick={() => fileInput2Ref.current?.click()}
+                            onClick={() => openLayerImagePicker(maskConfig.layers[0]?.id ?? null)}
                             className="group relative flex flex-col items-center justify-center aspect-square bg-slate-900/50 border-2 border-dashed border-slate-700 hover:border-purple-500 hover:bg-slate-900/80 rounded-xl transition-all active:scale-95"
                         >
                             <div className="w-12 h-12 rounded-full bg-slate-800 flex items-center justify-center mb-3 group-hover:bg-purple-500/20 group-hover:text-purple-400 transition-colors">
@@ -695,8 +1028,8 @@ export default function App() {
                     <CanvasLayer 
                        width={canvasSize.width} 
                        height={canvasSize.height} 
-                       imgForeground={img1}
-                       imgBackground={img2}
+                       images={images}
+                       assets={assets}
                        maskConfig={maskConfig}
                        onUpdateMaskConfig={setMaskConfig}
                        onHistorySave={saveHistory}
@@ -712,32 +1045,78 @@ export default function App() {
         onChange={setMaskConfig}
         onHistorySave={saveHistory}
         onClear={handleClearMask}
+        onLoadFont={handleLoadFont}
+        documentSize={canvasSize}
       />
 
+      {maskConfig.type === MaskType.MOVE && (
+          <LayerTransformPanel 
+            config={maskConfig}
+            onChange={setMaskConfig}
+            onHistorySave={saveHistory}
+          />
+      )}
+
       <Toolbar 
         currentMask={maskConfig.type} 
-        onSelectMask={(type) => {
-            saveHistory();
-            const isBrushTool = type === MaskType.BRUSH || type === MaskType.PEN;
-            const isHandTool = type === MaskType.HAND;
-            
-            setMaskConfig(prev => ({
-                ...prev,
-                type: type,
-                shape: isHandTool ? prev.shape : (isBrushTool ? MaskType.NONE : type),
-                brushPoints: isHandTool ? prev.brushPoints : [],
-                x: isHandTool ? prev.x : 0.5,
-                y: isHandTool ? prev.y : 0.5,
-                scale: isHandTool ? prev.scale : DEFAULT_MASK_CONFIG.scale,
-                rotation: isHandTool ? prev.rotation : 0
-            }));
-        }} 
+        onSelectMask={handleSelectTool} 
       />
 
       {/* Hidden Inputs */}
-      <input type="file" ref={fileInput1Ref} className="hidden" onChange={(e) => handleImageUpload(e, 1)} accept="image/*" />
-      <input type="file" ref={fileInput2Ref} className="hidden" onChange={(e) => handleImageUpload(e, 2)} accept="image/*" />
+      <input type="file" ref={layerImageInputRef} className="hidden" onChange={handleLayerImageUpload} accept="image/*" />
+      <input type="file" ref={addLayersInputRef} className="hidden" onChange={handleAddLayers} accept="image/*" multiple />
       <input type="file" ref={fileInputBothRef} className="hidden" onChange={handleDualUpload} accept="image/*" multiple />
+      <input type="file" ref={projectInputRef} className="hidden" onChange={handleOpenProject} accept={`.${PROJECT_EXTENSION},application/json`} />
+
+      {/* Session Recovery Modal */}
+      {recoverableSessions.length > 0 && !hasImages && (
+          <SessionRecoveryDialog 
+            sessions={recoverableSessions}
+            onRestore={handleRestoreSession}
+            onDismiss={() => setRecoverableSessions([])}
+          />
+      )}
+
+      {/* Export Modal */}
+      {showExportDialog && (
+          <ExportDialog 
+            width={canvasSize.width}
+            height={canvasSize.height}
+            isExporting={isExporting}
+            onExport={handleExport}
+            onClose={() => setShowExportDialog(false)}
+          />
+      )}
+
+      {/* Document Size Modal */}
+      {showDocumentSize && (
+          <DocumentSizeDialog 
+            width={canvasSize.width}
+            height={canvasSize.height}
+            onApply={handleResizeDocument}
+            onClose={() => setShowDocumentSize(false)}
+          />
+      )}
+
+      {/* AI Edit Modal */}
+      {showAiEdit && (
+          <AiEditDialog 
+            layerName={activeLayer?.name ?? null}
+            hasLayerImage={!!(activeLayer && images[activeLayer.id])}
+            isEditing={isAiEditing}
+            onEdit={handleAiEdit}
+            onClose={() => setShowAiEdit(false)}
+          />
+      )}
+
+      {/* AI Settings Modal */}
+      {showProviderSettings && (
+          <ProviderSettingsDialog 
+            settings={getProviderSettings()}
+            onSave={handleSaveProviderSettings}
+            onClose={() => setShowProviderSettings(false)}
+          />
+      )}
 
       {/* AI Modal */}
       {showGenModal && (
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { AiEditMode, AiEditOptions, AiEditSource, AiEditTarget } from '../types';
+import { Wand2, X, Loader2 } from 'lucide-react';
+
+interface AiEditDialogProps {
+  layerName: string | null; // Active layer, null when there is none
+  hasLayerImage: boolean;
+  isEditing: boolean;
+  onEdit: (options: AiEditOptions) => void;
+  onClose: () => void;
+}
+
+const modes = [
+  { mode: AiEditMode.INPAINT, label: 'Inpaint' },
+  { mode: AiEditMode.OUTPAINT, label: 'Outpaint' },
+];
+
+export const AiEditDialog: React.FC<AiEditDialogProps> = ({ layerName, hasLayerImage, isEditing, onEdit, onClose }) => {
+  const [mode, setMode] = useState<AiEditMode>(AiEditMode.INPAINT);
+  const [source, setSource] = useState<AiEditSource>(AiEditSource.COMPOSITE);
+  const [target, setTarget] = useState<AiEditTarget>(AiEditTarget.NEW_LAYER);
+  const [prompt, setPrompt] = useState('');
+  const [expand, setExpand] = useState(0.25);
+
+  const sources = [
+    { source: AiEditSource.COMPOSITE, label: 'Composite', available: true },
+    { source: AiEditSource.LAYER, label: layerName ?? 'Layer', available: hasLayerImage },
+  ];
+  const targets = [
+    { target: AiEditTarget.NEW_LAYER, label: 'New Layer', available: true },
+    { target: AiEditTarget.REPLACE_LAYER, label: `Replace ${layerName ?? 'Layer'}`, available: !!layerName },
+  ];
+  const isSourceAvailable = sources.some(option => option.source === source && option.available);
+  const isTargetAvailable = targets.some(option => option.target === target && option.available);
+
+  const optionClass = (active: boolean) =>
+    `flex-1 h-6 rounded-md text-[9px] font-bold transition-all disabled:opacity-30 ${active ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-end sm:items-center justify-center sm:p-4">
+        <div className="bg-slate-900 w-full sm:max-w-xs rounded-t-2xl sm:rounded-xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300 opacity-[0.35]">
+            <div className="p-3.5 space-y-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-[11px] font-bold text-white flex items-center gap-1.5">
+                        <Wand2 size={12} className="text-purple-400" />
+                        AI Edit
+                    </h3>
+                    <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-full text-slate-400">
+                        <X size={12} />
+                    </button>
+                </div>
+
+                <div className="flex gap-1">
+                    {modes.map(option => (
+                        <button key={option.mode} onClick={() => setMode(option.mode)} className={optionClass(mode === option.mode)}>
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <div className="text-[8px] text-slate-500">
+                    {mode === AiEditMode.INPAINT
+                        ? 'Regenerates the area covered by the current mask.'
+                        : 'Grows the canvas on every side and fills the new border.'}
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Source</label>
+                    <div className="flex gap-1">
+                        {sources.map(option => (
+                            <button
+                                key={option.source}
+                                onClick={() => setSource(option.source)}
+                                disabled={!option.available}
+                                className={`${optionClass(source === option.source)} truncate px-1`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Result</label>
+                    <div className="flex gap-1">
+                        {targets.map(option => (
+                            <button
+                                key={option.target}
+                                onClick={() => setTarget(option.target)}
+                                disabled={!option.available}
+                                className={`${optionClass(target === option.target)} truncate px-1`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {mode === AiEditMode.OUTPAINT && (
+                    <div className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                            <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Expand</label>
+                            <span className="text-[9px] font-bold text-white tabular-nums">{Math.round(expand * 100)}% per side</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0.05"
+                            max="0.5"
+                            step="0.05"
+                            value={expand}
+                            onChange={(e) => setExpand(parseFloat(e.target.value))}
+                            className="w-full"
+                        />
+                    </div>
+                )}
+
+                <textarea
+                    className="w-full h-16 bg-slate-950 border border-slate-700 rounded-md p-2.5 text-[10px] text-white outline-none focus:border-purple-500 transition-colors"
+                    placeholder={mode === AiEditMode.INPAINT ? 'What should appear inside the mask...' : 'What lies beyond the edges...'}
+                    value={prompt}
+                    onChange={(e) => setPrompt(e.target.value)}
+                />
+
+                <button
+                    onClick={() => onEdit({ mode, source, target, prompt, expand })}
+                    disabled={isEditing || !prompt || !isSourceAvailable || !isTargetAvailable}
+                    className="w-full py-2 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-md text-white font-bold text-[11px] shadow-lg shadow-purple-900/20 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                >
+                    {isEditing ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                    {isEditing ? 'Painting...' : 'Apply'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
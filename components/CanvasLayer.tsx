@@ -1,22 +1,40 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { MaskConfig, MaskType, Point } from '../types';
-import { drawMaskShape } from '../utils/drawUtils';
+import { BrushStroke, LayerImages, MaskAssets, MaskCombineMode, MaskConfig, MaskItem, MaskType, Point, StrokePoint } from '../types';
+import { PEN_SIZE, tracePath } from '../utils/drawUtils';
+import {
+  addMaskItem, createMaskItem, getActiveLayer, getLengthUnit, getSelectedItem, getStrokeShape, isBrushType, isStrokeTool,
+  toItemSpace, updateLayer, updateMaskItem
+} from '../utils/maskUtils';
+import { SIMPLIFY_TOLERANCE, simplifyStroke, stabilizePoint } from '../utils/strokeUtils';
+import { createPathAnchor, dragPathAnchor, getPathOnCanvas, hitTestPath, makeCornerAnchor, PathPart } from '../utils/pathUtils';
+import { SvgPathBuilder } from '../utils/svgExport';
+import { applyTransformDrag, getTransformHandles, hitTestTransform, TransformDrag } from '../utils/transformHandles';
+import { renderComposite } from '../utils/renderComposite';
+import { onRasterImageLoad } from '../utils/rasterMask';
+import { onFontLoad, registerFonts } from '../utils/fontUtils';
 
 interface CanvasLayerProps {
   width: number;
   height: number;
-  imgForeground: HTMLImageElement | null;
-  imgBackground: HTMLImageElement | null;
+  images: LayerImages;
+  assets: MaskAssets;
   maskConfig: MaskConfig;
   onUpdateMaskConfig: (config: MaskConfig) => void;
   onHistorySave: () => void;
 }
 
+// Grab radius of path anchors and handles in CSS pixels, large enough for a fingertip
+const PATH_HIT_RADIUS = 12;
+const TRANSFORM_HIT_RADIUS = 14;
+// Distance of the rotation handle above the shape, in CSS pixels
+const ROTATE_HANDLE_OFFSET = 28;
+const ITEM_CENTER: Point = { x: 0.5, y: 0.5 };
+
 export const CanvasLayer: React.FC<CanvasLayerProps> = ({
   width,
   height,
-  imgForeground,
-  imgBackground,
+  images,
+  assets,
   maskConfig,
   onUpdateMaskConfig,
   onHistorySave,
@@ -24,6 +42,19 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [lastPos, setLastPos] = useState<Point>({ x: 0, y: 0 });
+  // Where the pointer really is while the stabilizer trails behind it, in the stroke's item space
+  const rawPointRef = useRef<StrokePoint | null>(null);
+  // Part of the selected path being dragged; 'new' pulls the handles out of a freshly placed anchor
+  const pathDragRef = useRef<{ index: number; part: PathPart | 'new' } | null>(null);
+  const transformDragRef = useRef<TransformDrag | null>(null);
+  // Where the selected item scales and rotates about, in its item space. Editor-only, back to the center on reselect.
+  const [pivot, setPivot] = useState<{ itemId: string; point: Point } | null>(null);
+  // Bumped when a raster mask finishes decoding or a font finishes loading so the mask is drawn again with it
+  const [assetVersion, setAssetVersion] = useState(0);
+
+  useEffect(() => onRasterImageLoad(() => setAssetVersion(v => v + 1)), []);
+  useEffect(() => onFontLoad(() => setAssetVersion(v => v + 1)), []);
+  useEffect(() => registerFonts(maskConfig.fonts, assets), [maskConfig.fonts, assets]);
 
   // Helper to get mouse position relative to canvas, accounting for CSS scaling
   const getPos = (e: React.PointerEvent | PointerEvent): Point => {
@@ -41,9 +72,90 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
     };
   };
 
+  // Canvas pixels per CSS pixel on screen, including the view's zoom
+  const getDisplayScale = (): number => {
+    const canvas = canvasRef.current;
+    const rect = canvas?.getBoundingClientRect();
+    return canvas && rect?.width ? canvas.width / rect.width : 1;
+  };
+
+  const getSelectedPath = (): MaskItem | null => {
+    const selected = getSelectedItem(maskConfig);
+    return selected?.shape === MaskType.PATH ? selected : null;
+  };
+
+  // Grabs an anchor or handle of the selected path, or places a new anchor: on the open path, else on a new path
+  const startPathEdit = (pos: Point, altKey: boolean) => {
+    const path = getSelectedPath();
+    const hit = path && hitTestPath(path, pos, PATH_HIT_RADIUS * getDisplayScale(), width, height);
+
+    if (path && hit) {
+      if (hit.part === 'anchor' && hit.index === 0 && !path.closed && path.anchors.length > 1) {
+        // Back on the first anchor: close the path so it fills
+        onUpdateMaskConfig(updateMaskItem(maskConfig, path.id, { closed: true }));
+        pathDragRef.current = { index: 0, part: 'new' };
+      } else if (hit.part === 'anchor' && altKey) {
+        const anchors = [...path.anchors];
+        anchors[hit.index] = makeCornerAnchor(anchors[hit.index]);
+        onUpdateMaskConfig(updateMaskItem(maskConfig, path.id, { anchors }));
+        pathDragRef.current = hit;
+      } else {
+        pathDragRef.current = hit;
+      }
+      return;
+    }
+
+    if (path && !path.closed) {
+      const anchor = createPathAnchor(toItemSpace(path, pos, width, height));
+      onUpdateMaskConfig(updateMaskItem(maskConfig, path.id, { anchors: [...path.anchors, anchor] }));
+      pathDragRef.current = { index: path.anchors.length, part: 'new' };
+    } else {
+      const item = createMaskItem(MaskType.PATH, { anchors: [createPathAnchor({ x: pos.x / width, y: pos.y / height })] });
+      onUpdateMaskConfig(addMaskItem(maskConfig, item));
+      pathDragRef.current = { index: 0, part: 'new' };
+    }
+  };
+
+  const dragPath = (pos: Point, altKey: boolean) => {
+    const path = getSelectedPath();
+    const drag = pathDragRef.current;
+    if (!path || !drag || !path.anchors[drag.index]) return;
+    const anchors = [...path.anchors];
+    anchors[drag.index] = dragPathAnchor(anchors[drag.index], drag.part, toItemSpace(path, pos, width, height), altKey);
+    onUpdateMaskConfig(updateMaskItem(maskConfig, path.id, { anchors }));
+  };
+
+  // Shapes, text and raster items get the bounding box; brushes draw and paths edit their anchors instead
+  const getTransformable = (): MaskItem | null => {
+    const tool = maskConfig.type;
+    if (tool === MaskType.HAND || tool === MaskType.MOVE || tool === MaskType.PATH || isStrokeTool(tool)) return null;
+    const selected = getSelectedItem(maskConfig);
+    return selected && !isBrushType(selected.shape) && selected.shape !== MaskType.PATH ? selected : null;
+  };
+
+  const getPivot = (item: MaskItem): Point => (pivot?.itemId === item.id ? pivot.point : ITEM_CENTER);
+
+  const getHandles = (item: MaskItem) =>
+    getTransformHandles(item, getPivot(item), width, height, ROTATE_HANDLE_OFFSET * getDisplayScale());
+
+  // Only pens report real pressure; mice and most touch screens send a constant 0.5
+  const getPressure = (e: React.PointerEvent): number => (e.pointerType === 'pen' ? e.pressure : 1);
+
+  // Snapshot of the current brush settings, so later slider changes leave this stroke alone
+  const createStroke = (point: StrokePoint): BrushStroke => {
+    const isPen = maskConfig.type === MaskType.PEN;
+    return {
+      points: [point],
+      mode: maskConfig.type === MaskType.ERASER ? MaskCombineMode.SUBTRACT : maskConfig.brushMode,
+      size: isPen ? PEN_SIZE : maskConfig.brushSize,
+      hardness: isPen ? 1 : maskConfig.brushHardness,
+      opacity: maskConfig.brushOpacity,
+    };
+  };
+
   const handlePointerDown = (e: React.PointerEvent) => {
-    // 1. If Hand tool, ignore so parent can Pan
-    if (maskConfig.type === MaskType.HAND) return;
+    // 1. If Hand tool, ignore so parent can Pan. Without an active layer there is no mask to edit.
+    if (maskConfig.type === MaskType.HAND || !maskConfig.activeLayerId) return;
 
     // 2. If not primary pointer (e.g. second finger for pinch), ignore
     if (!e.isPrimary) return;
@@ -59,9 +171,32 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
     setIsDragging(true);
     setLastPos(pos);
 
-    if (maskConfig.type === MaskType.BRUSH || maskConfig.type === MaskType.PEN) {
-      const newStrokes = [...maskConfig.brushPoints, [pos]];
-      onUpdateMaskConfig({ ...maskConfig, brushPoints: newStrokes });
+    if (maskConfig.type === MaskType.PATH) {
+      startPathEdit(pos, e.altKey);
+    } else if (isStrokeTool(maskConfig.type)) {
+      // Strokes go into the selected brush item, or a fresh one on top of the active layer's mask
+      const selected = getSelectedItem(maskConfig);
+      const shape = getStrokeShape(maskConfig.type);
+      const pressure = getPressure(e);
+      if (selected && selected.shape === shape) {
+        const point = { ...toItemSpace(selected, pos, width, height), pressure };
+        rawPointRef.current = point;
+        onUpdateMaskConfig(updateMaskItem(maskConfig, selected.id, {
+          strokes: [...selected.strokes, createStroke(point)]
+        }));
+      } else {
+        const point = { x: pos.x / width, y: pos.y / height, pressure };
+        rawPointRef.current = point;
+        const item = createMaskItem(shape, { strokes: [createStroke(point)] });
+        onUpdateMaskConfig(addMaskItem(maskConfig, item));
+      }
+    } else {
+      const item = getTransformable();
+      if (item) {
+        const handles = getHandles(item);
+        const handle = hitTestTransform(handles, pos, TRANSFORM_HIT_RADIUS * getDisplayScale());
+        transformDragRef.current = { handle, start: pos, item, pivot: handles.pivot };
+      }
     }
   };
 
@@ -73,30 +208,85 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
     
     const pos = getPos(e);
 
-    if (maskConfig.type === MaskType.BRUSH || maskConfig.type === MaskType.PEN) {
-      const strokes = [...maskConfig.brushPoints];
+    // The move tool shifts the active layer's image; its mask stays where it is
+    if (maskConfig.type === MaskType.MOVE) {
+      const layer = getActiveLayer(maskConfig);
+      if (!layer) return;
+      onUpdateMaskConfig(updateLayer(maskConfig, layer.id, {
+        x: layer.x + (pos.x - lastPos.x) / width,
+        y: layer.y + (pos.y - lastPos.y) / height,
+      }));
+      setLastPos(pos);
+      return;
+    }
+
+    if (maskConfig.type === MaskType.PATH) {
+      dragPath(pos, e.altKey);
+      return;
+    }
+
+    const selected = getSelectedItem(maskConfig);
+    if (!selected) return;
+
+    if (isStrokeTool(maskConfig.type)) {
+      const strokes = [...selected.strokes];
       const lastStroke = strokes[strokes.length - 1];
       if (lastStroke) {
-          lastStroke.push(pos);
-          onUpdateMaskConfig({ ...maskConfig, brushPoints: strokes });
+          const raw = { ...toItemSpace(selected, pos, width, height), pressure: getPressure(e) };
+          rawPointRef.current = raw;
+          const point = stabilizePoint(lastStroke.points[lastStroke.points.length - 1], raw, maskConfig.brushSmoothing);
+          strokes[strokes.length - 1] = { ...lastStroke, points: [...lastStroke.points, point] };
+          onUpdateMaskConfig(updateMaskItem(maskConfig, selected.id, { strokes }));
       }
     } else {
-      const dx = (pos.x - lastPos.x) / width;
-      const dy = (pos.y - lastPos.y) / height;
-      
-      onUpdateMaskConfig({
-        ...maskConfig,
-        x: maskConfig.x + dx,
-        y: maskConfig.y + dy,
-      });
-      setLastPos(pos);
+      const drag = transformDragRef.current;
+      if (!drag) return;
+      if (drag.handle === 'pivot') {
+        setPivot({ itemId: drag.item.id, point: toItemSpace(drag.item, pos, width, height) });
+      } else {
+        onUpdateMaskConfig(updateMaskItem(maskConfig, drag.item.id, applyTransformDrag(drag, pos, e.shiftKey, width, height)));
+      }
     }
   };
 
+  // The stroke catches up with the pointer, then drops the points a smooth curve doesn't need
+  const finishStroke = () => {
+    const selected = getSelectedItem(maskConfig);
+    const raw = rawPointRef.current;
+    rawPointRef.current = null;
+    if (!selected || !raw || !isStrokeTool(maskConfig.type)) return;
+
+    const strokes = [...selected.strokes];
+    const lastStroke = strokes[strokes.length - 1];
+    if (!lastStroke) return;
+    const tail = lastStroke.points[lastStroke.points.length - 1];
+    const points = tail.x === raw.x && tail.y === raw.y ? lastStroke.points : [...lastStroke.points, raw];
+    // Item-space points are drawn at the item's scale, so tolerance is measured at that size too
+    const tolerance = SIMPLIFY_TOLERANCE * getLengthUnit(width, height);
+    strokes[strokes.length - 1] = {
+      ...lastStroke,
+      points: simplifyStroke(points, tolerance, width * selected.scaleX, height * selected.scaleY),
+    };
+    onUpdateMaskConfig(updateMaskItem(maskConfig, selected.id, { strokes }));
+  };
+
+  // A pivot dropped close to the center snaps back onto it
+  const finishTransform = () => {
+    const drag = transformDragRef.current;
+    transformDragRef.current = null;
+    if (drag?.handle !== 'pivot' || pivot?.itemId !== drag.item.id) return;
+    const at = getHandles(drag.item).pivot;
+    const center = { x: drag.item.x * width, y: drag.item.y * height };
+    if (Math.hypot(at.x - center.x, at.y - center.y) <= TRANSFORM_HIT_RADIUS * getDisplayScale()) setPivot(null);
+  };
+
   const handlePointerUp = (e: React.PointerEvent) => {
     if (isDragging) {
         setIsDragging(false);
         (e.target as Element).releasePointerCapture(e.pointerId);
+        pathDragRef.current = null;
+        finishStroke();
+        finishTransform();
     }
   };
 
@@ -107,101 +297,111 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Clear
+    const composite = renderComposite(
+      { images, assets, maskConfig, width, height },
+      { checkerboard: true }
+    );
     ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(composite, 0, 0);
 
-    // 1. Draw Background (Image 2) or Checkerboard
-    if (imgBackground) {
-      // Scale to cover
-      const scale = Math.max(width / imgBackground.width, height / imgBackground.height);
-      const x = (width / 2) - (imgBackground.width / 2) * scale;
-      const y = (height / 2) - (imgBackground.height / 2) * scale;
-      ctx.drawImage(imgBackground, x, y, imgBackground.width * scale, imgBackground.height * scale);
-    } else {
-       // Checkerboard pattern
-       const cellSize = 20;
-       ctx.fillStyle = '#1e293b'; // Slate 800
-       ctx.fillRect(0,0, width, height);
-       ctx.fillStyle = '#334155'; // Slate 700
-       for(let r=0; r<height; r+=cellSize) {
-           for(let c=0; c<width; c+=cellSize) {
-               if((r/cellSize + c/cellSize) % 2 === 0) ctx.fillRect(c,r,cellSize,cellSize);
-           }
-       }
-    }
+  }, [width, height, images, assets, maskConfig, assetVersion]);
 
-    if (!imgForeground) return;
-
-    // 2. Prepare the Mask (Shape + Brush)
-    const maskCanvas = document.createElement('canvas');
-    maskCanvas.width = width;
-    maskCanvas.height = height;
-    const maskCtx = maskCanvas.getContext('2d');
-    if (!maskCtx) return;
-
-    // A. Draw Shape
-    maskCtx.save();
-    const cx = maskConfig.x * width;
-    const cy = maskConfig.y * height;
-    maskCtx.translate(cx, cy);
-    maskCtx.rotate((maskConfig.rotation * Math.PI) / 180);
-    maskCtx.scale(maskConfig.scale, maskConfig.scale);
-    maskCtx.translate(-width/2, -height/2);
-    
-    drawMaskShape(
-        maskCtx, 
-        maskConfig.shape || MaskType.CIRCLE, 
-        width, 
-        height, 
-        maskConfig.text, 
-        maskConfig.fontSize, 
-        [], 
-        0
-    );
-    maskCtx.restore();
-
-    // B. Draw Brush Strokes
-    if (maskConfig.brushPoints.length > 0) {
-         const brushStyle = maskConfig.type === MaskType.PEN ? MaskType.PEN : MaskType.BRUSH;
-         drawMaskShape(
-             maskCtx, 
-             brushStyle, 
-             width, 
-             height, 
-             "", 
-             0, 
-             maskConfig.brushPoints, 
-             maskConfig.brushSize
-         );
-    }
+  // Outline, anchors and handles of the path being edited, drawn over the canvas in document pixels
+  const renderPathOverlay = () => {
+    const path = maskConfig.type === MaskType.PATH ? getSelectedPath() : null;
+    if (!path || path.anchors.length === 0) return null;
 
-    // 3. Create Masked Foreground Layer
-    const layerCanvas = document.createElement('canvas');
-    layerCanvas.width = width;
-    layerCanvas.height = height;
-    const layerCtx = layerCanvas.getContext('2d');
-    if (!layerCtx) return;
+    const anchors = getPathOnCanvas(path, width, height);
+    const outline = new SvgPathBuilder();
+    tracePath(outline, anchors, path.closed);
+    const unit = getDisplayScale();
 
-    // Draw Foreground Image
-    const fgScale = Math.max(width / imgForeground.width, height / imgForeground.height);
-    const fgX = (width / 2) - (imgForeground.width / 2) * fgScale;
-    const fgY = (height / 2) - (imgForeground.height / 2) * fgScale;
-    layerCtx.drawImage(imgForeground, fgX, fgY, imgForeground.width * fgScale, imgForeground.height * fgScale);
+    return (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${width} ${height}`}>
+        <path d={`${outline}`} fill="none" stroke="#818cf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {anchors.map((anchor, i) => (
+          <g key={i}>
+            {[anchor.handleIn, anchor.handleOut].map((handle, j) => (handle.x === anchor.x && handle.y === anchor.y ? null : (
+              <g key={j}>
+                <line x1={anchor.x} y1={anchor.y} x2={handle.x} y2={handle.y} stroke="#a5b4fc" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                <circle cx={handle.x} cy={handle.y} r={3.5 * unit} fill="#a5b4fc" />
+              </g>
+            )))}
+            <rect
+              x={anchor.x - 4 * unit}
+              y={anchor.y - 4 * unit}
+              width={8 * unit}
+              height={8 * unit}
+              // The first anchor of an open path is where it closes
+              fill={i === 0 && !path.closed ? '#4f46e5' : '#ffffff'}
+              stroke="#4f46e5"
+              strokeWidth={1.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          </g>
+        ))}
+      </svg>
+    );
+  };
 
-    // Apply Combined Mask
-    layerCtx.globalCompositeOperation = 'destination-in';
-    layerCtx.drawImage(maskCanvas, 0, 0);
+  // Bounding box with corner scale handles, the rotation handle and the pivot
+  const renderTransformOverlay = () => {
+    const item = getTransformable();
+    if (!item) return null;
 
-    // 4. Composite to Main Canvas
-    ctx.save();
-    ctx.globalAlpha = maskConfig.opacity ?? 1;
-    ctx.drawImage(layerCanvas, 0, 0);
-    ctx.restore();
+    const { corners, edges, rotate, topCenter, pivot: pivotAt } = getHandles(item);
+    const unit = getDisplayScale();
 
-  }, [width, height, imgForeground, imgBackground, maskConfig]);
+    return (
+      <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${width} ${height}`}>
+        <polygon
+          points={corners.map(p => `${p.x},${p.y}`).join(' ')}
+          fill="none"
+          stroke="#818cf8"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        <line x1={topCenter.x} y1={topCenter.y} x2={rotate.x} y2={rotate.y} stroke="#818cf8" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <circle cx={rotate.x} cy={rotate.y} r={5 * unit} fill="#ffffff" stroke="#4f46e5" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {corners.map((p, i) => (
+          <rect
+            key={i}
+            x={p.x - 5 * unit}
+            y={p.y - 5 * unit}
+            width={10 * unit}
+            height={10 * unit}
+            fill="#ffffff"
+            stroke="#4f46e5"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {edges.map((p, i) => (
+          <rect
+            key={i}
+            x={p.x - 3.5 * unit}
+            y={p.y - 3.5 * unit}
+            width={7 * unit}
+            height={7 * unit}
+            fill="#ffffff"
+            stroke="#4f46e5"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        <circle cx={pivotAt.x} cy={pivotAt.y} r={4 * unit} fill="none" stroke="#4f46e5" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        <path
+          d={`M${pivotAt.x - 8 * unit} ${pivotAt.y}H${pivotAt.x + 8 * unit}M${pivotAt.x} ${pivotAt.y - 8 * unit}V${pivotAt.y + 8 * unit}`}
+          stroke="#4f46e5"
+          strokeWidth={1}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    );
+  };
 
   return (
-    <div className="relative bg-slate-950 shadow-2xl rounded-lg overflow-hidden cursor-crosshair touch-none max-w-full max-h-full">
+    <div className={`relative bg-slate-950 shadow-2xl rounded-lg overflow-hidden touch-none max-w-full max-h-full ${maskConfig.type === MaskType.MOVE ? 'cursor-move' : 'cursor-crosshair'}`}>
       <canvas
         ref={canvasRef}
         width={width}
@@ -212,6 +412,8 @@ export const CanvasLayer: React.FC<CanvasLayerProps> = ({
         onPointerUp={handlePointerUp}
         onPointerLeave={handlePointerUp}
       />
+      {renderPathOverlay()}
+      {renderTransformOverlay()}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Point, Size } from '../types';
+import { MAX_CANVAS_EDGE } from '../utils/drawUtils';
+import { optionClass } from './dialogStyles';
+import { Ratio, X } from 'lucide-react';
+
+interface DocumentSizeDialogProps {
+  width: number; // Current document size
+  height: number;
+  onApply: (size: Size, anchor: Point) => void;
+  onClose: () => void;
+}
+
+// Aspect presets keep the current width; fixed presets are exact pixel sizes
+const presets: { label: string; aspect?: number; size?: Size }[] = [
+  { label: '1:1', aspect: 1 },
+  { label: '4:5', aspect: 4 / 5 },
+  { label: '9:16', aspect: 9 / 16 },
+  { label: '16:9', aspect: 16 / 9 },
+  { label: 'A4', size: { width: 2480, height: 3508 } }, // 210 × 297mm at 300dpi
+];
+
+const anchors: Point[] = [0, 0.5, 1].flatMap(y => [0, 0.5, 1].map(x => ({ x, y })));
+
+const clampEdge = (value: number) => Math.min(Math.max(Math.round(value) || 1, 1), MAX_CANVAS_EDGE);
+
+export const DocumentSizeDialog: React.FC<DocumentSizeDialogProps> = ({ width, height, onApply, onClose }) => {
+  // The fields hold what is typed; it is only clamped into a size when used, or when a field is left
+  const [fields, setFields] = useState({ width: `${Math.round(width)}`, height: `${Math.round(height)}` });
+  const [anchor, setAnchor] = useState<Point>({ x: 0.5, y: 0.5 });
+  const size: Size = { width: clampEdge(parseInt(fields.width)), height: clampEdge(parseInt(fields.height)) };
+
+  const setSize = (next: Size) => setFields({ width: `${next.width}`, height: `${next.height}` });
+
+  const applyPreset = (preset: typeof presets[number]) => {
+      if (preset.size) setSize(preset.size);
+      else if (preset.aspect) setSize({ width: Math.round(width), height: clampEdge(width / preset.aspect) });
+  };
+
+  const isPresetActive = (preset: typeof presets[number]) => preset.size
+      ? preset.size.width === size.width && preset.size.height === size.height
+      : Math.abs(size.width / size.height - (preset.aspect ?? 0)) < 0.005;
+
+  const describeChange = (from: number, to: number, axis: string) =>
+      to === Math.round(from) ? null : `${to > from ? 'extends' : 'crops'} ${Math.abs(to - Math.round(from))}px ${axis}`;
+  const changes = [describeChange(width, size.width, 'wide'), describeChange(height, size.height, 'high')].filter(Boolean);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-end sm:items-center justify-center sm:p-4">
+        <div className="bg-slate-900 w-full sm:max-w-xs rounded-t-2xl sm:rounded-xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300 opacity-[0.35]">
+            <div className="p-3.5 space-y-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-[11px] font-bold text-white flex items-center gap-1.5">
+                        <Ratio size={12} className="text-indigo-400" />
+                        Document Size
+                    </h3>
+                    <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-full text-slate-400">
+                        <X size={12} />
+                    </button>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Preset</label>
+                    <div className="flex gap-1">
+                        {presets.map(preset => (
+                            <button key={preset.label} onClick={() => applyPreset(preset)} className={optionClass(isPresetActive(preset))}>
+                                {preset.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex gap-3">
+                    <div className="flex-1 space-y-1.5">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Pixels</label>
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CANVAS_EDGE}
+                                value={fields.width}
+                                onChange={(e) => setFields(prev => ({ ...prev, width: e.target.value }))}
+                                onBlur={() => setSize(size)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-[10px] text-white outline-none focus:border-indigo-500"
+                            />
+                            <span className="text-[9px] text-slate-500">×</span>
+                            <input
+                                type="number"
+                                min={1}
+                                max={MAX_CANVAS_EDGE}
+                                value={fields.height}
+                                onChange={(e) => setFields(prev => ({ ...prev, height: e.target.value }))}
+                                onBlur={() => setSize(size)}
+                                className="w-full bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-[10px] text-white outline-none focus:border-indigo-500"
+                            />
+                        </div>
+                        <div className="text-[8px] text-slate-500">
+                            {changes.length ? `Canvas ${changes.join(', ')}` : 'No change'}
+                        </div>
+                    </div>
+
+                    <div className="space-y-1.5">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Anchor</label>
+                        <div className="grid grid-cols-3 gap-0.5 w-14">
+                            {anchors.map(option => (
+                                <button
+                                    key={`${option.x}-${option.y}`}
+                                    onClick={() => setAnchor(option)}
+                                    className={`h-4 rounded-sm transition-all ${anchor.x === option.x && anchor.y === option.y ? 'bg-indigo-600' : 'bg-slate-800 hover:bg-slate-700'}`}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
+                <button
+                    onClick={() => onApply(size, anchor)}
+                    className="w-full py-2 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-md text-white font-bold text-[11px] shadow-lg shadow-purple-900/20 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                >
+                    <Ratio size={12} />
+                    Apply
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { ExportContent, ExportFormat, ExportOptions } from '../types';
+import { MAX_CANVAS_EDGE } from '../utils/drawUtils';
+import { optionClass } from './dialogStyles';
+import { Download, X, Loader2 } from 'lucide-react';
+
+interface ExportDialogProps {
+  width: number; // Document size
+  height: number;
+  isExporting: boolean;
+  onExport: (options: ExportOptions) => void;
+  onClose: () => void;
+}
+
+type SizePreset = 'original' | '2x' | 'custom';
+
+const contents = [
+  { content: ExportContent.COMPOSITE, label: 'Composite' },
+  { content: ExportContent.MASK, label: 'Mask' },
+  { content: ExportContent.FOREGROUND, label: 'Cutout' },
+  { content: ExportContent.MASK_SVG, label: 'SVG' },
+];
+
+const sizePresets: { preset: SizePreset, label: string }[] = [
+  { preset: 'original', label: 'Original' },
+  { preset: '2x', label: '2x' },
+  { preset: 'custom', label: 'Custom' },
+];
+
+const formats = [
+  { format: ExportFormat.PNG, label: 'PNG' },
+  { format: ExportFormat.JPEG, label: 'JPEG' },
+  { format: ExportFormat.WEBP, label: 'WebP' },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ width, height, isExporting, onExport, onClose }) => {
+  const [content, setContent] = useState<ExportContent>(ExportContent.COMPOSITE);
+  const [preset, setPreset] = useState<SizePreset>('original');
+  const [customWidth, setCustomWidth] = useState(Math.round(width));
+  const [format, setFormat] = useState<ExportFormat>(ExportFormat.PNG);
+  const [quality, setQuality] = useState(0.92);
+
+  const maxScale = MAX_CANVAS_EDGE / Math.max(width, height);
+  const requestedScale = preset === 'original' ? 1 : preset === '2x' ? 2 : customWidth / width;
+  const scale = Math.min(Math.max(requestedScale, 0.01), maxScale);
+  const outputWidth = Math.round(width * scale);
+  const outputHeight = Math.round(height * scale);
+  const isVector = content === ExportContent.MASK_SVG;
+  // The cutout needs an alpha channel, which JPEG can't carry
+  const availableFormats = content === ExportContent.FOREGROUND
+      ? formats.filter(option => option.format !== ExportFormat.JPEG)
+      : formats;
+  const effectiveFormat = availableFormats.some(option => option.format === format) ? format : ExportFormat.PNG;
+  const hasQuality = !isVector && effectiveFormat !== ExportFormat.PNG;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-end sm:items-center justify-center sm:p-4">
+        <div className="bg-slate-900 w-full sm:max-w-xs rounded-t-2xl sm:rounded-xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300 opacity-[0.35]">
+            <div className="p-3.5 space-y-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-[11px] font-bold text-white flex items-center gap-1.5">
+                        <Download size={12} className="text-indigo-400" />
+                        Export
+                    </h3>
+                    <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-full text-slate-400">
+                        <X size={12} />
+                    </button>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Content</label>
+                    <div className="flex gap-1">
+                        {contents.map(option => (
+                            <button key={option.content} onClick={() => setContent(option.content)} className={optionClass(content === option.content)}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Size</label>
+                    <div className="flex gap-1">
+                        {sizePresets.map(option => (
+                            <button key={option.preset} onClick={() => setPreset(option.preset)} className={optionClass(preset === option.preset)}>
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    {preset === 'custom' && (
+                        <div className="flex items-center gap-1.5">
+                            <input
+                                type="number"
+                                min={1}
+                                value={customWidth}
+                                onChange={(e) => setCustomWidth(Math.max(1, parseInt(e.target.value) || 1))}
+                                className="w-20 bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-[10px] text-white outline-none focus:border-indigo-500"
+                            />
+                            <span className="text-[9px] text-slate-500">px wide, height follows aspect</span>
+                        </div>
+                    )}
+                    <div className="text-[9px] text-slate-500 tabular-nums">{outputWidth} × {outputHeight}px</div>
+                </div>
+
+                {!isVector && (
+                    <div className="space-y-1.5">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Format</label>
+                        <div className="flex gap-1">
+                            {availableFormats.map(option => (
+                                <button key={option.format} onClick={() => setFormat(option.format)} className={optionClass(effectiveFormat === option.format)}>
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                {hasQuality && (
+                    <div className="space-y-1.5">
+                        <div className="flex items-center justify-between">
+                            <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Quality</label>
+                            <span className="text-[9px] font-bold text-white tabular-nums">{Math.round(quality * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0.1"
+                            max="1"
+                            step="0.01"
+                            value={quality}
+                            onChange={(e) => setQuality(parseFloat(e.target.value))}
+                            className="w-full"
+                        />
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onExport({ content, scale, format: effectiveFormat, quality })}
+                    disabled={isExporting}
+                    className="w-full py-2 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-md text-white font-bold text-[11px] shadow-lg shadow-purple-900/20 disabled:opacity-50 flex items-center justify-center gap-1.5"
+                >
+                    {isExporting ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+                    {isExporting ? 'Rendering...' : 'Export'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
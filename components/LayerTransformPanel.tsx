@@ -0,0 +1,110 @@
+import React from 'react';
+import { ImageLayer, LayerFit, MaskConfig } from '../types';
+import { getActiveLayer, resetLayerTransform, updateLayer } from '../utils/maskUtils';
+import { Move, FlipHorizontal2, FlipVertical2, RotateCcw } from 'lucide-react';
+
+interface LayerTransformPanelProps {
+  config: MaskConfig;
+  onChange: (config: MaskConfig) => void;
+  onHistorySave: () => void;
+}
+
+const fits = [
+  { fit: LayerFit.COVER, label: 'Cover' },
+  { fit: LayerFit.CONTAIN, label: 'Contain' },
+  { fit: LayerFit.STRETCH, label: 'Stretch' },
+  { fit: LayerFit.ORIGINAL, label: 'Original' },
+];
+
+// Numeric fields show percentages and degrees; the layer stores fractions
+const fields: { key: 'x' | 'y' | 'scale' | 'rotation'; label: string; unit: string; factor: number }[] = [
+  { key: 'x', label: 'X', unit: '%', factor: 100 },
+  { key: 'y', label: 'Y', unit: '%', factor: 100 },
+  { key: 'scale', label: 'Scale', unit: '%', factor: 100 },
+  { key: 'rotation', label: 'Rotate', unit: '°', factor: 1 },
+];
+
+export const LayerTransformPanel: React.FC<LayerTransformPanelProps> = ({ config, onChange, onHistorySave }) => {
+  const layer = getActiveLayer(config);
+  if (!layer) return null;
+
+  const handleLayerChange = (patch: Partial<ImageLayer>) => {
+    onChange(updateLayer(config, layer.id, patch));
+  };
+
+  const handleFieldChange = (key: typeof fields[number]['key'], factor: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    // A zero scale would make the image vanish and can't be dragged back
+    handleLayerChange({ [key]: key === 'scale' ? Math.max(parsed, 1) / factor : parsed / factor });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `w-7 h-7 rounded-full flex items-center justify-center transition-all ${active ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`;
+
+  return (
+    <div className="fixed left-1/2 -translate-x-1/2 bottom-14 z-40 w-[90%] max-w-[280px] transition-all duration-300 ease-out opacity-[0.35]">
+       <div className="bg-[#1e1e2e]/95 backdrop-blur-2xl border border-white/10 shadow-xl shadow-black/50 overflow-hidden rounded-[24px] px-3 py-2.5 space-y-2">
+          <div className="flex items-center justify-between gap-2">
+             <div className="flex items-center gap-1.5 min-w-0">
+                <Move size={12} className="text-indigo-400 shrink-0" />
+                <span className="text-[8px] font-black text-indigo-400 uppercase tracking-[0.1em] truncate">{layer.name}</span>
+             </div>
+             <div className="flex items-center gap-0.5 bg-black/30 p-0.5 rounded-full border border-white/5">
+                <button
+                    onClick={() => { onHistorySave(); handleLayerChange({ flipX: !layer.flipX }); }}
+                    className={toggleClass(layer.flipX)}
+                    title="Flip Horizontal"
+                >
+                    <FlipHorizontal2 size={13} />
+                </button>
+                <button
+                    onClick={() => { onHistorySave(); handleLayerChange({ flipY: !layer.flipY }); }}
+                    className={toggleClass(layer.flipY)}
+                    title="Flip Vertical"
+                >
+                    <FlipVertical2 size={13} />
+                </button>
+                <button
+                    onClick={() => { onHistorySave(); onChange(resetLayerTransform(config, layer.id)); }}
+                    className={toggleClass(false)}
+                    title="Reset Placement"
+                >
+                    <RotateCcw size={13} />
+                </button>
+             </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-1">
+             {fields.map(({ key, label, unit, factor }) => (
+                <label key={key} className="flex flex-col gap-0.5">
+                    <span className="text-[7px] font-bold text-slate-500 uppercase">{label} {unit}</span>
+                    <input
+                        type="number"
+                        step={1}
+                        value={Math.round(layer[key] * factor * 10) / 10}
+                        onFocus={onHistorySave}
+                        onChange={(e) => handleFieldChange(key, factor, e.target.value)}
+                        className="w-full bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-[10px] text-white tabular-nums outline-none focus:border-indigo-500"
+                    />
+                </label>
+             ))}
+          </div>
+
+          <div className="flex items-center gap-0.5 bg-black/30 p-0.5 rounded-full border border-white/5">
+             {fits.map(({ fit, label }) => (
+                <button
+                    key={fit}
+                    onClick={() => { onHistorySave(); handleLayerChange({ fit }); }}
+                    className={`flex-1 h-5 rounded-full text-[8px] font-bold uppercase transition-all ${layer.fit === fit ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                >
+                    {label}
+                </button>
+             ))}
+          </div>
+
+          <div className="text-[9px] text-slate-500 text-center font-medium">Drag on canvas to move the layer under its mask</div>
+       </div>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LayerImages, MaskConfig } from '../types';
+import { activateLayer, updateLayer } from '../utils/maskUtils';
+import { Image as ImageIcon, Upload, Eye, EyeOff, Trash2, GripVertical, Sparkles, Loader2, Plus } from 'lucide-react';
+
+interface LayersPanelProps {
+  config: MaskConfig;
+  images: LayerImages;
+  onChange: (config: MaskConfig) => void;
+  onHistorySave: () => void;
+  onUploadImage: (layerId: string | null) => void; // null adds a new layer on top
+  onUpscaleLayer: (layerId: string) => void;
+  upscalingLayerId: string | null;
+}
+
+// Drawn from the decoded image, since restored sessions revoke the blob URLs their images were loaded from
+const LayerThumbnail: React.FC<{ image: HTMLImageElement }> = ({ image }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    // Cover the square, like object-cover
+    const { width, height } = ctx.canvas;
+    const scale = Math.max(width / image.width, height / image.height);
+    ctx.clearRect(0, 0, width, height);
+    ctx.drawImage(image, (width - image.width * scale) / 2, (height - image.height * scale) / 2, image.width * scale, image.height * scale);
+  }, [image]);
+
+  return <canvas ref={canvasRef} width={48} height={48} className="w-full h-full" />;
+};
+
+export const LayersPanel: React.FC<LayersPanelProps> = ({ config, images, onChange, onHistorySave, onUploadImage, onUpscaleLayer, upscalingLayerId }) => {
+  const [drag, setDrag] = useState<{ from: number; over: number } | null>(null);
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+
+  const { layers } = config;
+  // Top of the stack is listed first, like the mask stack
+  const rows = layers.map((layer, index) => ({ layer, index })).reverse();
+  const activeLayer = layers.find(layer => layer.id === config.activeLayerId);
+
+  const handleToggleVisible = (id: string, visible: boolean) => {
+      onHistorySave();
+      onChange(updateLayer(config, id, { visible: !visible }));
+  };
+
+  const handleDelete = (id: string) => {
+      onHistorySave();
+      const index = layers.findIndex(layer => layer.id === id);
+      const remaining = layers.filter(layer => layer.id !== id);
+      const next = { ...config, layers: remaining };
+      if (config.activeLayerId !== id) {
+          onChange(next);
+          return;
+      }
+      // The layer below takes over, or the new bottom one
+      const fallback = remaining[Math.max(0, index - 1)];
+      onChange(fallback ? activateLayer(next, fallback.id) : { ...next, activeLayerId: null, selectedId: null });
+  };
+
+  const handleOpacityChange = (opacity: number) => {
+      if (!activeLayer) return;
+      onChange(updateLayer(config, activeLayer.id, { opacity }));
+  };
+
+  // Dragging by the grip uses pointer events and hit-testing, so reordering works with touch as well as a mouse
+  const getIndexAt = (x: number, y: number) => {
+      const row = document.elementFromPoint(x, y)?.closest('[data-layer-index]');
+      return row ? Number(row.getAttribute('data-layer-index')) : null;
+  };
+
+  const handleGripDown = (e: React.PointerEvent, index: number) => {
+      e.stopPropagation();
+      (e.target as Element).setPointerCapture(e.pointerId);
+      setDrag({ from: index, over: index });
+  };
+
+  const handleGripMove = (e: React.PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+      const over = getIndexAt(e.clientX, e.clientY);
+      if (over !== null && over !== current.over) setDrag({ ...current, over });
+  };
+
+  const handleGripUp = (e: React.PointerEvent) => {
+      (e.target as Element).releasePointerCapture(e.pointerId);
+      const current = dragRef.current;
+      setDrag(null);
+      if (!current || current.from === current.over) return;
+      onHistorySave();
+      const reordered = [...layers];
+      const [moved] = reordered.splice(current.from, 1);
+      reordered.splice(current.over, 0, moved);
+      onChange({ ...config, layers: reordered });
+  };
+
+  return (
+    <div className="fixed top-11 right-2 z-50 bg-slate-900 border border-white/10 rounded-lg shadow-2xl p-1.5 w-48 animate-in slide-in-from-top-5 duration-200 origin-top-right opacity-[0.35]">
+        <h3 className="text-[8px] font-bold text-slate-500 uppercase mb-1.5 flex justify-between items-center">
+            <span>Layers</span>
+            <span className="text-[6px] text-slate-600">{layers.length} layers</span>
+        </h3>
+        <div className="flex flex-col gap-1 max-h-72 overflow-y-auto custom-scrollbar">
+            {rows.map(({ layer, index }) => {
+                const image = images[layer.id];
+                const isActive = layer.id === config.activeLayerId;
+                const isDropTarget = drag !== null && drag.over === index && drag.from !== index;
+                return (
+                    <div
+                        key={layer.id}
+                        data-layer-index={index}
+                        onClick={() => onChange(activateLayer(config, layer.id))}
+                        className={`flex items-center gap-1 rounded-sm p-1 cursor-pointer transition-colors group ${isActive ? 'bg-indigo-600/40 border border-indigo-500/50' : 'bg-slate-800 border border-transparent hover:bg-slate-700'} ${isDropTarget ? 'ring-1 ring-indigo-400' : ''} ${drag?.from === index ? 'opacity-50' : ''}`}
+                    >
+                        <div
+                            onPointerDown={(e) => handleGripDown(e, index)}
+                            onPointerMove={handleGripMove}
+                            onPointerUp={handleGripUp}
+                            onPointerCancel={handleGripUp}
+                            onClick={(e) => e.stopPropagation()}
+                            className="w-3 h-6 flex items-center justify-center text-slate-500 hover:text-white cursor-grab active:cursor-grabbing shrink-0"
+                            style={{ touchAction: 'none' }}
+                        >
+                            <GripVertical size={10} />
+                        </div>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onUploadImage(layer.id); }}
+                            className="w-6 h-6 bg-indigo-500/20 rounded flex items-center justify-center text-indigo-400 overflow-hidden relative shrink-0"
+                        >
+                            {image ? (
+                                <LayerThumbnail image={image} />
+                            ) : (
+                                <ImageIcon size={12} />
+                            )}
+                            <div className="absolute inset-0 bg-black/50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                <Upload size={10} className="text-white"/>
+                            </div>
+                        </button>
+                        <div className="flex-1 text-left truncate min-w-0">
+                            <div className={`text-[9px] font-bold leading-tight truncate ${layer.visible ? 'text-white' : 'text-slate-500'}`}>{layer.name}</div>
+                            <div className="text-[7px] text-slate-400 leading-tight truncate">
+                                {image ? `${layer.items.length ? 'Masked' : 'Unmasked'} · ${Math.round(layer.opacity * 100)}%` : 'Empty'}
+                            </div>
+                        </div>
+                        {image && (
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onUpscaleLayer(layer.id); }}
+                                disabled={upscalingLayerId === layer.id}
+                                className="h-5 px-1 gap-0.5 flex items-center justify-center rounded bg-gradient-to-r from-amber-500/10 to-orange-500/10 hover:from-amber-500 hover:to-orange-500 border border-amber-500/30 hover:border-amber-500 text-amber-500 hover:text-white transition-all shrink-0 active:scale-95"
+                            >
+                                {upscalingLayerId === layer.id ? <Loader2 size={10} className="animate-spin" /> : (
+                                    <>
+                                     <Sparkles size={8} />
+                                     <span className="text-[6px] font-bold uppercase">4K</span>
+                                    </>
+                                )}
+                            </button>
+                        )}
+                        <button
+                            onClick={(e) => { e.stopPropagation(); handleToggleVisible(layer.id, layer.visible); }}
+                            className="w-4 h-5 flex items-center justify-center rounded text-slate-400 hover:text-white shrink-0"
+                        >
+                            {layer.visible ? <Eye size={10} /> : <EyeOff size={10} />}
+                        </button>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); handleDelete(layer.id); }}
+                            className="w-4 h-5 flex items-center justify-center rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10 shrink-0"
+                        >
+                            <Trash2 size={10} />
+                        </button>
+                    </div>
+                );
+            })}
+        </div>
+        {activeLayer && (
+            <div className="flex items-center gap-1.5 mt-1.5 px-0.5">
+                <span className="text-[7px] font-bold text-slate-500 uppercase shrink-0">Opacity</span>
+                <input
+                    type="range"
+                    min="0"
+                    max="1"
+                    step="0.01"
+                    value={activeLayer.opacity}
+                    onMouseDown={onHistorySave}
+                    onTouchStart={onHistorySave}
+                    onChange={(e) => handleOpacityChange(parseFloat(e.target.value))}
+                    className="flex-1 min-w-0"
+                />
+                <span className="text-[7px] font-bold text-white tabular-nums w-6 text-right">{Math.round(activeLayer.opacity * 100)}%</span>
+            </div>
+        )}
+        <div className="h-px bg-white/5 my-1"></div>
+        <button
+            onClick={() => onUploadImage(null)}
+            className="w-full py-2 flex items-center justify-center gap-1.5 bg-slate-800/50 hover:bg-slate-800 border border-dashed border-slate-700/50 hover:border-slate-500/50 rounded-sm transition-all text-slate-400 hover:text-white"
+        >
+            <Plus size={10} />
+            <span className="text-[9px] font-bold">Add Layers</span>
+        </button>
+    </div>
+  );
+};
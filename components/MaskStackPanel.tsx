@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MaskConfig, MaskType } from '../types';
+import { getActiveLayer, getMaskItemLabel, getStrokeShape, updateLayer, updateMaskItem } from '../utils/maskUtils';
+import { isSvgText } from '../utils/svgShape';
+import { Eye, EyeOff, ChevronUp, ChevronDown, Trash2, ScanFace, Loader2, ImagePlus, Shapes } from 'lucide-react';
+
+interface MaskStackPanelProps {
+  config: MaskConfig;
+  onChange: (config: MaskConfig) => void;
+  onHistorySave: () => void;
+  onSelectSubject?: () => void; // Absent while the active layer has no image to segment
+  isSegmenting?: boolean;
+  onImportMask: (file: File) => void; // Grayscale matte, alpha cutout or SVG file
+  onImportSvg: (text: string) => void; // SVG markup or path data
+}
+
+export const MaskStackPanel: React.FC<MaskStackPanelProps> = ({ config, onChange, onHistorySave, onSelectSubject, isSegmenting, onImportMask, onImportSvg }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [svgText, setSvgText] = useState<string | null>(null); // Open while pasting SVG by hand
+
+  // App passes new handlers every render; the paste listener reads the latest ones so it is only added once
+  const importHandlersRef = useRef({ onImportMask, onImportSvg });
+  importHandlersRef.current = { onImportMask, onImportSvg };
+
+  // Pasting an image while the stack is open adds it as a raster mask, pasting SVG text as a vector shape
+  useEffect(() => {
+      const handlePaste = (e: ClipboardEvent) => {
+          const file = Array.from(e.clipboardData?.files ?? []).find(f => f.type.startsWith('image/'));
+          if (file) {
+              e.preventDefault();
+              importHandlersRef.current.onImportMask(file);
+              return;
+          }
+          // Text typed into fields is theirs
+          if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+          const text = e.clipboardData?.getData('text/plain') ?? '';
+          if (!isSvgText(text)) return;
+          e.preventDefault();
+          importHandlersRef.current.onImportSvg(text);
+      };
+      window.addEventListener('paste', handlePaste);
+      return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleAddSvgText = () => {
+      if (!svgText?.trim()) return;
+      onImportSvg(svgText);
+      setSvgText(null);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) onImportMask(file);
+  };
+
+  // Shows the mask of the active layer; top of the stack is listed first, like most layer panels
+  const layer = getActiveLayer(config);
+  const items = layer?.items ?? [];
+  const rows = items.map((item, index) => ({ item, index })).reverse();
+
+  const handleSelect = (id: string) => {
+      const item = items.find(i => i.id === id);
+      if (!item) return;
+      // Switch to the item's own tool so dragging/drawing edits it straight away
+      const keepTool = config.type === MaskType.HAND || config.type === MaskType.MOVE || getStrokeShape(config.type) === item.shape;
+      const type = keepTool ? config.type : item.shape;
+      onChange({ ...config, type, selectedId: id });
+  };
+
+  const handleToggleVisible = (id: string, visible: boolean) => {
+      onHistorySave();
+      onChange(updateMaskItem(config, id, { visible: !visible }));
+  };
+
+  const handleMove = (index: number, direction: 1 | -1) => {
+      const target = index + direction;
+      if (!layer || target < 0 || target >= items.length) return;
+      onHistorySave();
+      const reordered = [...items];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      onChange(updateLayer(config, layer.id, { items: reordered }));
+  };
+
+  const handleDelete = (id: string) => {
+      if (!layer) return;
+      onHistorySave();
+      const remaining = items.filter(i => i.id !== id);
+      const selectedId = config.selectedId === id
+          ? (remaining[remaining.length - 1]?.id ?? null)
+          : config.selectedId;
+      onChange({ ...updateLayer(config, layer.id, { items: remaining }), selectedId });
+  };
+
+  return (
+    <div className="fixed top-11 left-2 z-50 bg-slate-900 border border-white/10 rounded-lg shadow-2xl p-1.5 w-48 animate-in slide-in-from-top-5 duration-200 origin-top-left opacity-[0.35]">
+        <h3 className="text-[8px] font-bold text-slate-500 uppercase mb-1.5 flex justify-between items-center">
+            <span className="truncate">Mask · {layer?.name ?? 'No layer'}</span>
+            <span className="text-[6px] text-slate-600 shrink-0">{items.length} items</span>
+        </h3>
+        {rows.length === 0 && (
+            <div className="text-[8px] text-slate-500 text-center py-2">Unmasked. Pick a shape or brush to add a mask</div>
+        )}
+        <div className="flex flex-col gap-1 max-h-64 overflow-y-auto custom-scrollbar">
+            {rows.map(({ item, index }) => (
+                <div
+                    key={item.id}
+                    onClick={() => handleSelect(item.id)}
+                    className={`flex items-center gap-1 rounded-sm p-1 cursor-pointer transition-colors ${config.selectedId === item.id ? 'bg-indigo-600/40 border border-indigo-500/50' : 'bg-slate-800 border border-transparent hover:bg-slate-700'}`}
+                >
+                    <button
+                        onClick={(e) => { e.stopPropagation(); handleToggleVisible(item.id, item.visible); }}
+                        className="w-5 h-5 flex items-center justify-center rounded text-slate-400 hover:text-white shrink-0"
+                    >
+                        {item.visible ? <Eye size={10} /> : <EyeOff size={10} />}
+                    </button>
+                    <div className={`flex-1 text-[9px] font-bold truncate ${item.visible ? 'text-white' : 'text-slate-500'}`}>
+                        {getMaskItemLabel(item)}
+                    </div>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); handleMove(index, 1); }}
+                        disabled={index === items.length - 1}
+                        className="w-4 h-5 flex items-center justify-center text-slate-400 hover:text-white disabled:opacity-30 shrink-0"
+                    >
+                        <ChevronUp size={10} />
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); handleMove(index, -1); }}
+                        disabled={index === 0}
+                        className="w-4 h-5 flex items-center justify-center text-slate-400 hover:text-white disabled:opacity-30 shrink-0"
+                    >
+                        <ChevronDown size={10} />
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); handleDelete(item.id); }}
+                        className="w-5 h-5 flex items-center justify-center rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10 shrink-0"
+                    >
+                        <Trash2 size={10} />
+                    </button>
+                </div>
+            ))}
+        </div>
+        <div className="h-px bg-white/5 my-1"></div>
+        <div className="flex gap-1">
+            {onSelectSubject && (
+                <button
+                    onClick={onSelectSubject}
+                    disabled={isSegmenting}
+                    className="flex-1 h-6 flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 rounded-sm text-[9px] font-bold text-purple-300 hover:text-white disabled:opacity-50 transition-colors"
+                >
+                    {isSegmenting ? <Loader2 size={10} className="animate-spin" /> : <ScanFace size={10} />}
+                    {isSegmenting ? 'Finding...' : 'Subject'}
+                </button>
+            )}
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex-1 h-6 flex items-center justify-center gap-1 bg-slate-800 hover:bg-slate-700 rounded-sm text-[9px] font-bold text-slate-300 hover:text-white transition-colors"
+                title="Import a grayscale or alpha mask, or an SVG shape (or paste one)"
+            >
+                <ImagePlus size={10} />
+                Import
+            </button>
+            <button
+                onClick={() => setSvgText(svgText === null ? '' : null)}
+                className={`flex-1 h-6 flex items-center justify-center gap-1 rounded-sm text-[9px] font-bold transition-colors ${svgText !== null ? 'bg-indigo-600 text-white' : 'bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white'}`}
+                title="Paste SVG markup or path data as a vector shape"
+            >
+                <Shapes size={10} />
+                SVG
+            </button>
+        </div>
+        {svgText !== null && (
+            <div className="mt-1 space-y-1">
+                <textarea
+                    value={svgText}
+                    onChange={(e) => setSvgText(e.target.value)}
+                    placeholder="<svg>…</svg> or M10 10 L90 10 …"
+                    rows={3}
+                    className="w-full bg-black/40 border border-white/10 rounded-sm px-1.5 py-1 text-[9px] font-mono text-white outline-none focus:border-indigo-500 resize-none placeholder:text-slate-600"
+                />
+                <button
+                    onClick={handleAddSvgText}
+                    disabled={!svgText.trim()}
+                    className="w-full h-6 bg-indigo-600 hover:bg-indigo-500 rounded-sm text-[9px] font-bold text-white disabled:opacity-50 transition-colors"
+                >
+                    Add Shape
+                </button>
+            </div>
+        )}
+        <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileChange} accept="image/*,.svg" />
+    </div>
+  );
+};
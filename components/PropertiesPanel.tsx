@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { MaskConfig, MaskType } from '../types';
+import { BlendMode, FeatherMode, ImageLayer, MaskCombineMode, MaskConfig, MaskItem, MaskType, Size, TextAlign, TextStyle } from '../types';
+import { getActiveLayer, getLengthUnit, getSelectedItem, isBrushType, MAX_SKEW, updateLayer, updateMaskItem } from '../utils/maskUtils';
+import { getShapeDefinition, resolveShapeParams, ShapeParam } from '../utils/shapeRegistry';
+import { BUILT_IN_FONTS, FONT_FILE_ACCEPT } from '../utils/fontUtils';
 import { 
   Sliders, Type as TypeIcon, Move, Paintbrush, ChevronUp, ChevronDown, 
-  RotateCw, Trash2, Droplets, Scan, Palette
+  RotateCw, Trash2, Droplets, Droplet, CircleDot, Feather, Scan, Palette, Spline,
+  SquaresUnite, SquaresSubtract, SquaresIntersect, SquaresExclude, AlignLeft, AlignCenter, AlignRight, Italic, FileUp
 } from 'lucide-react';
 
 interface PropertiesPanelProps {
@@ -10,52 +14,175 @@ interface PropertiesPanelProps {
   onChange: (config: MaskConfig) => void;
   onHistorySave: () => void;
   onClear?: () => void;
+  onLoadFont?: (file: File) => void;
+  documentSize: Size; // Only for showing lengths in pixels
 }
 
-type PropertyMode = 'scale' | 'rotate' | 'opacity' | 'size' | 'color';
+type PropertyMode = 'scale' | 'rotate' | 'opacity' | 'size' | 'hardness' | 'flow' | 'smoothing' | 'feather' | 'color';
 
-export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChange, onHistorySave, onClear }) => {
+const combineModes = [
+  { mode: MaskCombineMode.ADD, icon: SquaresUnite, label: 'Add' },
+  { mode: MaskCombineMode.SUBTRACT, icon: SquaresSubtract, label: 'Subtract' },
+  { mode: MaskCombineMode.INTERSECT, icon: SquaresIntersect, label: 'Intersect' },
+  { mode: MaskCombineMode.EXCLUDE, icon: SquaresExclude, label: 'Exclude' },
+];
+
+const blendModes = [
+  { mode: BlendMode.NORMAL, label: 'Normal' },
+  { mode: BlendMode.MULTIPLY, label: 'Multiply' },
+  { mode: BlendMode.SCREEN, label: 'Screen' },
+  { mode: BlendMode.OVERLAY, label: 'Overlay' },
+  { mode: BlendMode.SOFT_LIGHT, label: 'Soft Light' },
+  { mode: BlendMode.DIFFERENCE, label: 'Difference' },
+  { mode: BlendMode.COLOR, label: 'Color' },
+  { mode: BlendMode.LUMINOSITY, label: 'Luminosity' },
+];
+
+// Numeric fields show percentages and degrees; the item stores factors
+const transformFields: { key: 'scaleX' | 'scaleY' | 'skewX' | 'skewY'; label: string; factor: number }[] = [
+  { key: 'scaleX', label: 'Width %', factor: 100 },
+  { key: 'scaleY', label: 'Height %', factor: 100 },
+  { key: 'skewX', label: 'Skew X°', factor: 1 },
+  { key: 'skewY', label: 'Skew Y°', factor: 1 },
+];
+
+const formatShapeParam = (param: ShapeParam, value: number) => {
+  switch (param.display) {
+    case 'percent': return `${Math.round(value * 100)}%`;
+    case 'degrees': return `${Math.round(value)}°`;
+    default: return `${Math.round(value)}`;
+  }
+};
+
+const textAligns: { align: TextAlign; icon: typeof AlignLeft }[] = [
+  { align: 'left', icon: AlignLeft },
+  { align: 'center', icon: AlignCenter },
+  { align: 'right', icon: AlignRight },
+];
+
+const fontWeights = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+// Sliders for the numeric text settings; letter spacing and line height are fractions of the font size
+const textSliders: { key: 'lineHeight' | 'letterSpacing' | 'arc'; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'lineHeight', label: 'Line Height', min: 0.7, max: 3, step: 0.05, format: v => `${v.toFixed(2)}×` },
+  { key: 'letterSpacing', label: 'Letter Spacing', min: -0.2, max: 1, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'arc', label: 'Arc', min: -270, max: 270, step: 1, format: v => `${Math.round(v)}°` },
+];
+
+const featherModes = [
+  { mode: FeatherMode.INNER, label: 'Inner' },
+  { mode: FeatherMode.CENTER, label: 'Center' },
+  { mode: FeatherMode.OUTER, label: 'Outer' },
+];
+
+export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChange, onHistorySave, onClear, onLoadFont, documentSize }) => {
   const [isExpanded, setIsExpanded] = useState(false);
   
-  // Determine available modes based on tool type
-  const isBrush = config.type === MaskType.BRUSH || config.type === MaskType.PEN;
-  const isText = config.type === MaskType.TEXT;
-  const isShape = !isBrush && !isText && config.type !== MaskType.HAND && config.type !== MaskType.NONE;
+  // The panel edits whichever item of the mask stack is selected
+  const item = getSelectedItem(config);
+  const layer = getActiveLayer(config);
+  const shape = item?.shape ?? MaskType.NONE;
+  const toPixels = (length: number) => Math.round(length * getLengthUnit(documentSize.width, documentSize.height));
+
+  // Determine available modes based on the selected item's shape
+  const isBrush = isBrushType(shape);
+  const isText = shape === MaskType.TEXT;
+  const isShape = !isBrush && !isText && shape !== MaskType.HAND && shape !== MaskType.NONE;
+  const isEraser = config.type === MaskType.ERASER;
+  const shapeDefinition = getShapeDefinition(shape);
+  const shapeParams = shapeDefinition && item ? resolveShapeParams(shapeDefinition, item.params) : {};
 
   const [activeMode, setActiveMode] = useState<PropertyMode>(isBrush || isText ? 'size' : 'scale');
 
-  // Reset mode when tool changes
+  // Reset mode when the selected item changes kind
   useEffect(() => {
       if (isBrush) setActiveMode('size');
       else if (isText) setActiveMode('size');
       else if (isShape) setActiveMode('scale');
-  }, [config.type]);
+  }, [shape]);
 
   const handleChange = (key: keyof MaskConfig, value: any) => {
     onChange({ ...config, [key]: value });
   };
 
+  const handleLayerChange = <K extends keyof ImageLayer>(key: K, value: ImageLayer[K]) => {
+    if (!layer) return;
+    onChange(updateLayer(config, layer.id, { [key]: value }));
+  };
+
+  const handleItemChange = <K extends keyof MaskItem>(key: K, value: MaskItem[K]) => {
+    if (!item) return;
+    onChange(updateMaskItem(config, item.id, { [key]: value }));
+  };
+
+  // The slider scales both axes, keeping whatever proportions the shape already has
+  const handleScaleChange = (scale: number) => {
+    if (!item) return;
+    onChange(updateMaskItem(config, item.id, { scaleX: scale, scaleY: scale * (item.scaleY / item.scaleX) }));
+  };
+
+  const handleTransformFieldChange = (key: typeof transformFields[number]['key'], factor: number, value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) return;
+    const isScale = key === 'scaleX' || key === 'scaleY';
+    const clamped = isScale ? Math.max(parsed, 1) : Math.min(Math.max(parsed, -MAX_SKEW), MAX_SKEW);
+    handleItemChange(key, clamped / factor);
+  };
+
+  const handleTextStyleChange = <K extends keyof TextStyle>(key: K, value: TextStyle[K]) => {
+    if (!item) return;
+    onChange(updateMaskItem(config, item.id, { textStyle: { ...item.textStyle, [key]: value } }));
+  };
+
+  const handleShapeParamChange = (key: string, value: number) => {
+    if (!item) return;
+    onChange(updateMaskItem(config, item.id, { params: { ...item.params, [key]: value } }));
+  };
+
+  // Shapes combine as a whole; for brushes the mode applies to the next strokes drawn
+  const combineMode = isBrush ? config.brushMode : item?.mode ?? MaskCombineMode.ADD;
+  const handleCombineModeChange = (mode: MaskCombineMode) => {
+    if (isBrush) {
+        handleChange('brushMode', mode);
+    } else {
+        onHistorySave();
+        handleItemChange('mode', mode);
+    }
+  };
+
   const getLabel = () => {
       switch (activeMode) {
           case 'scale': return 'Scale Shape';
           case 'rotate': return 'Rotation';
-          case 'opacity': return 'Opacity';
-          case 'size': return isBrush ? 'Brush Size' : 'Text Size';
+          case 'opacity': return 'Layer Opacity';
+          case 'feather': return 'Feather';
+          case 'size': return isBrush ? (isEraser ? 'Eraser Size' : 'Brush Size') : 'Text Size';
+          case 'hardness': return 'Hardness';
+          case 'flow': return 'Stroke Opacity';
+          case 'smoothing': return 'Smoothing';
           default: return 'Settings';
       }
   };
 
   const getValueDisplay = () => {
+      if (!item) return '';
       switch (activeMode) {
-          case 'scale': return `${Math.round(config.scale * 100)}%`;
-          case 'rotate': return `${Math.round(config.rotation)}°`;
-          case 'opacity': return `${Math.round((config.opacity ?? 1) * 100)}%`;
-          case 'size': return `${isBrush ? config.brushSize : config.fontSize}px`;
+          case 'scale': return item.scaleX === item.scaleY
+              ? `${Math.round(item.scaleX * 100)}%`
+              : `${Math.round(item.scaleX * 100)}×${Math.round(item.scaleY * 100)}%`;
+          case 'rotate': return `${Math.round(item.rotation)}°`;
+          case 'opacity': return `${Math.round((layer?.opacity ?? 1) * 100)}%`;
+          case 'feather': return `${toPixels(item.feather)}px`;
+          case 'size': return `${toPixels(isBrush ? config.brushSize : item.fontSize)}px`;
+          case 'hardness': return `${Math.round(config.brushHardness * 100)}%`;
+          case 'flow': return `${Math.round(config.brushOpacity * 100)}%`;
+          case 'smoothing': return `${Math.round(config.brushSmoothing * 100)}%`;
           default: return '';
       }
   };
 
   const renderSlider = () => {
+      if (!item) return null;
       const commonProps = {
           className: "w-full h-0.5 bg-slate-700/50 rounded-full appearance-none cursor-pointer [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:bg-indigo-500 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:shadow-sm hover:[&::-webkit-slider-thumb]:scale-110 transition-all",
           onMouseDown: onHistorySave,
@@ -70,8 +197,8 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChan
                       min="0.1"
                       max="2.0"
                       step="0.01"
-                      value={config.scale}
-                      onChange={(e) => handleChange('scale', parseFloat(e.target.value))}
+                      value={item.scaleX}
+                      onChange={(e) => handleScaleChange(parseFloat(e.target.value))}
                       {...commonProps}
                   />
               );
@@ -81,8 +208,20 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChan
                       type="range"
                       min="0"
                       max="360"
-                      value={config.rotation}
-                      onChange={(e) => handleChange('rotation', parseInt(e.target.value))}
+                      value={item.rotation}
+                      onChange={(e) => handleItemChange('rotation', parseInt(e.target.value))}
+                      {...commonProps}
+                  />
+              );
+          case 'feather':
+               return (
+                  <input
+                      type="range"
+                      min="0"
+                      max="0.15"
+                      step="0.001"
+                      value={item.feather}
+                      onChange={(e) => handleItemChange('feather', parseFloat(e.target.value))}
                       {...commonProps}
                   />
               );
@@ -93,27 +232,75 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChan
                       min="0"
                       max="1"
                       step="0.01"
-                      value={config.opacity ?? 1}
-                      onChange={(e) => handleChange('opacity', parseFloat(e.target.value))}
+                      value={layer?.opacity ?? 1}
+                      onChange={(e) => handleLayerChange('opacity', parseFloat(e.target.value))}
                       {...commonProps}
                   />
               );
           case 'size':
-               return (
+               // Brush size only affects strokes drawn from now on
+               return isBrush ? (
                   <input
                       type="range"
-                      min={isBrush ? "1" : "10"}
-                      max={isBrush ? "100" : "300"}
-                      value={isBrush ? config.brushSize : config.fontSize}
-                      onChange={(e) => handleChange(isBrush ? 'brushSize' : 'fontSize', parseInt(e.target.value))}
+                      min="0.002"
+                      max="0.15"
+                      step="0.001"
+                      value={config.brushSize}
+                      onChange={(e) => handleChange('brushSize', parseFloat(e.target.value))}
+                      className={commonProps.className}
+                  />
+              ) : (
+                  <input
+                      type="range"
+                      min="0.02"
+                      max="0.5"
+                      step="0.005"
+                      value={item.fontSize}
+                      onChange={(e) => handleItemChange('fontSize', parseFloat(e.target.value))}
                       {...commonProps}
                   />
               );
+          case 'hardness':
+               return (
+                  <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.01"
+                      value={config.brushHardness}
+                      onChange={(e) => handleChange('brushHardness', parseFloat(e.target.value))}
+                      className={commonProps.className}
+                  />
+              );
+          case 'flow':
+               return (
+                  <input
+                      type="range"
+                      min="0.05"
+                      max="1"
+                      step="0.01"
+                      value={config.brushOpacity}
+                      onChange={(e) => handleChange('brushOpacity', parseFloat(e.target.value))}
+                      className={commonProps.className}
+                  />
+              );
+          case 'smoothing':
+               return (
+                  <input
+                      type="range"
+                      min="0"
+                      max="0.95"
+                      step="0.01"
+                      value={config.brushSmoothing}
+                      onChange={(e) => handleChange('brushSmoothing', parseFloat(e.target.value))}
+                      className={commonProps.className}
+                  />
+              );
           default: return null;
       }
   };
 
-  if (config.type === MaskType.NONE || config.type === MaskType.HAND) return null;
+  if (!item || config.type === MaskType.NONE || config.type === MaskType.HAND || config.type === MaskType.MOVE) return null;
 
   return (
     <div className="fixed left-1/2 -translate-x-1/2 bottom-14 z-40 w-[90%] max-w-[280px] transition-all duration-300 ease-out opacity-[0.35]">
@@ -148,7 +335,35 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChan
                         {isBrush ? <Paintbrush size={13} /> : <TypeIcon size={13} />}
                     </button>
                 )}
+                {isBrush && (
+                    <>
+                        <button 
+                            onClick={() => setActiveMode('hardness')}
+                            className={`w-7 h-7 rounded-full flex items-center justify-center transition-all ${activeMode === 'hardness' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                        >
+                            <CircleDot size={13} />
+                        </button>
+                        <button 
+                            onClick={() => setActiveMode('flow')}
+                            className={`w-7 h-7 rounded-full flex items-center justify-center transition-all ${activeMode === 'flow' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                        >
+                            <Droplet size={13} />
+                        </button>
+                        <button 
+                            onClick={() => setActiveMode('smoothing')}
+                            className={`w-7 h-7 rounded-full flex items-center justify-center transition-all ${activeMode === 'smoothing' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                        >
+                            <Spline size={13} />
+                        </button>
+                    </>
+                )}
                 
+                <button 
+                    onClick={() => setActiveMode('feather')}
+                    className={`w-7 h-7 rounded-full flex items-center justify-center transition-all ${activeMode === 'feather' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                >
+                    <Feather size={13} />
+                </button>
                 <button 
                     onClick={() => setActiveMode('opacity')}
                     className={`w-7 h-7 rounded-full flex items-center justify-center transition-all ${activeMode === 'opacity' ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
@@ -192,21 +407,195 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ config, onChan
           {/* Expanded Settings */}
           {isExpanded && (
              <div className="px-3 pb-3 pt-1 bg-black/20 animate-in slide-in-from-top-2 duration-200 border-t border-white/5">
+                {!isEraser && (
+                <div className="space-y-1.5 mb-2">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Combine</label>
+                    <div className="flex items-center gap-0.5 bg-black/30 p-0.5 rounded-full border border-white/5">
+                        {combineModes.map(({ mode, icon: Icon, label }) => (
+                            <button 
+                                key={mode}
+                                onClick={() => handleCombineModeChange(mode)}
+                                title={label}
+                                className={`flex-1 h-6 rounded-full flex items-center justify-center transition-all ${combineMode === mode ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                            >
+                                <Icon size={12} />
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                )}
+                {shapeDefinition?.params.map(param => (
+                <div key={param.key} className="space-y-1.5 mb-2">
+                    <div className="flex items-center justify-between">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{param.label}</label>
+                        <span className="text-[9px] font-bold text-white tabular-nums">{formatShapeParam(param, shapeParams[param.key])}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min={param.min}
+                        max={param.max}
+                        step={param.step}
+                        value={shapeParams[param.key]}
+                        onMouseDown={onHistorySave}
+                        onTouchStart={onHistorySave}
+                        onChange={(e) => handleShapeParamChange(param.key, parseFloat(e.target.value))}
+                        className="w-full"
+                    />
+                </div>
+                ))}
+                {!isBrush && (
+                <div className="space-y-1.5 mb-2">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Transform</label>
+                    <div className="grid grid-cols-4 gap-1">
+                        {transformFields.map(({ key, label, factor }) => (
+                            <label key={key} className="flex flex-col gap-0.5">
+                                <span className="text-[7px] font-bold text-slate-500 uppercase">{label}</span>
+                                <input
+                                    type="number"
+                                    step={1}
+                                    value={Math.round(item[key] * factor * 10) / 10}
+                                    onFocus={onHistorySave}
+                                    onChange={(e) => handleTransformFieldChange(key, factor, e.target.value)}
+                                    className="w-full bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-[10px] text-white tabular-nums outline-none focus:border-indigo-500"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                </div>
+                )}
+                {layer && (
+                <div className="space-y-1.5 mb-2">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Layer Blend</label>
+                    <div className="grid grid-cols-4 gap-0.5 bg-black/30 p-0.5 rounded-xl border border-white/5">
+                        {blendModes.map(({ mode, label }) => (
+                            <button 
+                                key={mode}
+                                onClick={() => { onHistorySave(); handleLayerChange('blendMode', mode); }}
+                                className={`h-5 rounded-full text-[7px] font-bold uppercase truncate px-1 transition-all ${layer.blendMode === mode ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                )}
+                <div className="space-y-1.5 mb-2">
+                    <div className="flex items-center justify-between">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Mask Feather</label>
+                        <span className="text-[9px] font-bold text-white tabular-nums">{toPixels(layer?.feather ?? 0)}px</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0"
+                        max="0.15"
+                        step="0.001"
+                        value={layer?.feather ?? 0}
+                        onMouseDown={onHistorySave}
+                        onTouchStart={onHistorySave}
+                        onChange={(e) => handleLayerChange('feather', parseFloat(e.target.value))}
+                        className="w-full"
+                    />
+                    <div className="flex items-center gap-0.5 bg-black/30 p-0.5 rounded-full border border-white/5">
+                        {featherModes.map(({ mode, label }) => (
+                            <button 
+                                key={mode}
+                                onClick={() => { onHistorySave(); handleLayerChange('featherMode', mode); }}
+                                className={`flex-1 h-5 rounded-full text-[8px] font-bold uppercase transition-all ${layer?.featherMode === mode ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                 {isText && (
                      <div className="space-y-1.5">
                         <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Text Content</label>
-                        <input 
-                            type="text" 
-                            value={config.text}
+                        <textarea 
+                            rows={2}
+                            value={item.text}
                             onFocus={onHistorySave}
-                            onChange={(e) => handleChange('text', e.target.value)}
-                            className="w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600"
+                            onChange={(e) => handleItemChange('text', e.target.value)}
+                            className="w-full resize-none bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 placeholder:text-slate-600"
                             placeholder="Enter text..."
                         />
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Font</label>
+                        <div className="flex items-center gap-1">
+                            <select
+                                value={item.textStyle.fontFamily}
+                                onChange={(e) => { onHistorySave(); handleTextStyleChange('fontFamily', e.target.value); }}
+                                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-[10px] text-white outline-none focus:border-indigo-500"
+                            >
+                                {[...BUILT_IN_FONTS, ...config.fonts.map(font => font.family)].map(family => (
+                                    <option key={family} value={family}>{family}</option>
+                                ))}
+                            </select>
+                            <label
+                                title="Load font file"
+                                className="w-6 h-6 flex items-center justify-center rounded-full text-slate-400 hover:text-indigo-300 hover:bg-white/5 cursor-pointer transition-colors"
+                            >
+                                <FileUp size={12} />
+                                <input
+                                    type="file"
+                                    accept={FONT_FILE_ACCEPT}
+                                    className="hidden"
+                                    onChange={(e) => {
+                                        const file = e.target.files?.[0];
+                                        if (file) onLoadFont?.(file);
+                                        e.target.value = '';
+                                    }}
+                                />
+                            </label>
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <select
+                                value={item.textStyle.fontWeight}
+                                onChange={(e) => { onHistorySave(); handleTextStyleChange('fontWeight', parseInt(e.target.value)); }}
+                                className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-md px-1.5 py-1 text-[10px] text-white tabular-nums outline-none focus:border-indigo-500"
+                            >
+                                {fontWeights.map(weight => <option key={weight} value={weight}>{weight}</option>)}
+                            </select>
+                            <div className="flex items-center gap-0.5 bg-black/30 p-0.5 rounded-full border border-white/5">
+                                <button
+                                    onClick={() => { onHistorySave(); handleTextStyleChange('italic', !item.textStyle.italic); }}
+                                    title="Italic"
+                                    className={`w-6 h-5 rounded-full flex items-center justify-center transition-all ${item.textStyle.italic ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                                >
+                                    <Italic size={11} />
+                                </button>
+                                {textAligns.map(({ align, icon: Icon }) => (
+                                    <button
+                                        key={align}
+                                        onClick={() => { onHistorySave(); handleTextStyleChange('align', align); }}
+                                        className={`w-6 h-5 rounded-full flex items-center justify-center transition-all ${item.textStyle.align === align ? 'bg-indigo-600 text-white shadow-sm' : 'text-slate-400 hover:text-indigo-300 hover:bg-white/5'}`}
+                                    >
+                                        <Icon size={11} />
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {textSliders.map(({ key, label, min, max, step, format }) => (
+                            <div key={key}>
+                                <div className="flex items-center justify-between">
+                                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">{label}</label>
+                                    <span className="text-[9px] font-bold text-white tabular-nums">{format(item.textStyle[key])}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min={min}
+                                    max={max}
+                                    step={step}
+                                    value={item.textStyle[key]}
+                                    onMouseDown={onHistorySave}
+                                    onTouchStart={onHistorySave}
+                                    onChange={(e) => handleTextStyleChange(key, parseFloat(e.target.value))}
+                                    className="w-full"
+                                />
+                            </div>
+                        ))}
                      </div>
                 )}
                 <div className="text-[9px] text-slate-500 text-center mt-1.5 font-medium">
-                    {isBrush ? "Draw on canvas to create mask" : "Drag shape to position"}
+                    {isEraser ? "Draw on canvas to erase mask" : isBrush ? "Draw on canvas to create mask" : "Drag shape to position"}
                 </div>
              </div>
           )}
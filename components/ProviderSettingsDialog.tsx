@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { ProviderSettings } from '../services/providerTypes';
+import { PROVIDERS, getProviderDescriptor } from '../services/imageProvider';
+import { Settings, X } from 'lucide-react';
+
+interface ProviderSettingsDialogProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-700 rounded-md px-2 py-1 text-[10px] text-white outline-none focus:border-indigo-500";
+
+export const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const descriptor = getProviderDescriptor(draft.providerId);
+
+  const update = (patch: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const optionClass = (active: boolean) =>
+    `flex-1 h-6 rounded-md text-[9px] font-bold transition-all ${active ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-end sm:items-center justify-center sm:p-4">
+        <div className="bg-slate-900 w-full sm:max-w-xs rounded-t-2xl sm:rounded-xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300 opacity-[0.35]">
+            <div className="p-3.5 space-y-3">
+                <div className="flex justify-between items-center">
+                    <h3 className="text-[11px] font-bold text-white flex items-center gap-1.5">
+                        <Settings size={12} className="text-indigo-400" />
+                        AI Settings
+                    </h3>
+                    <button onClick={onClose} className="p-1.5 bg-slate-800 rounded-full text-slate-400">
+                        <X size={12} />
+                    </button>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Provider</label>
+                    <div className="flex gap-1">
+                        {PROVIDERS.map(provider => (
+                            <button key={provider.id} onClick={() => update({ providerId: provider.id })} className={optionClass(draft.providerId === provider.id)}>
+                                {provider.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="space-y-1.5">
+                    <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Model</label>
+                    <input
+                        value={draft.model}
+                        onChange={(e) => update({ model: e.target.value })}
+                        placeholder={descriptor.defaultModel || 'Backend default'}
+                        className={inputClass}
+                    />
+                </div>
+
+                {descriptor.needsEndpoint && (
+                    <div className="space-y-1.5">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">Endpoint</label>
+                        <input
+                            value={draft.endpoint}
+                            onChange={(e) => update({ endpoint: e.target.value })}
+                            placeholder="http://127.0.0.1:7860"
+                            className={inputClass}
+                        />
+                    </div>
+                )}
+
+                {(descriptor.needsApiKey || descriptor.needsEndpoint) && (
+                    <div className="space-y-1.5">
+                        <label className="text-[9px] font-bold text-slate-400 uppercase tracking-wider">
+                            {descriptor.needsApiKey ? 'API Key' : 'Credentials (user:password)'}
+                        </label>
+                        <input
+                            type="password"
+                            value={draft.apiKey}
+                            onChange={(e) => update({ apiKey: e.target.value })}
+                            placeholder={descriptor.needsApiKey ? 'Uses the built-in key when empty' : 'Optional'}
+                            className={inputClass}
+                        />
+                        <div className="text-[8px] text-slate-500">Stored in this browser only.</div>
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onSave(draft)}
+                    className="w-full py-2 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-md text-white font-bold text-[11px] shadow-lg shadow-purple-900/20 flex items-center justify-center gap-1.5"
+                >
+                    Save
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,70 @@
+import React from 'react';
+import { SessionSummary } from '../services/sessionStore';
+import { History, X, Image as ImageIcon } from 'lucide-react';
+
+interface SessionRecoveryDialogProps {
+  sessions: SessionSummary[]; // Most recent first
+  onRestore: (id: string) => void;
+  onDismiss: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const SessionRecoveryDialog: React.FC<SessionRecoveryDialogProps> = ({ sessions, onRestore, onDismiss }) => {
+  const [latest, ...older] = sessions;
+  if (!latest) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-[60] flex items-end sm:items-center justify-center sm:p-4">
+        <div className="bg-slate-900 w-full sm:max-w-xs rounded-t-2xl sm:rounded-xl overflow-hidden animate-in slide-in-from-bottom-10 duration-300 opacity-[0.35]">
+            <div className="p-3.5">
+                <div className="flex justify-between items-center mb-3.5">
+                    <h3 className="text-[11px] font-bold text-white flex items-center gap-1.5">
+                        <History size={12} className="text-indigo-400" />
+                        Welcome back
+                    </h3>
+                    <button onClick={onDismiss} className="p-1.5 bg-slate-800 rounded-full text-slate-400">
+                        <X size={12} />
+                    </button>
+                </div>
+
+                <button
+                    onClick={() => onRestore(latest.id)}
+                    className="w-full py-2 mb-2.5 bg-gradient-to-r from-indigo-600 to-purple-600 rounded-md text-white font-bold text-[11px] shadow-lg shadow-purple-900/20 flex items-center justify-center gap-1.5"
+                >
+                    Restore last session
+                </button>
+
+                {older.length > 0 && (
+                    <>
+                        <div className="text-[8px] font-bold text-slate-500 uppercase mb-1.5">Recent</div>
+                        <div className="grid grid-cols-2 gap-1.5 mb-2.5">
+                            {older.map(session => (
+                                <button
+                                    key={session.id}
+                                    onClick={() => onRestore(session.id)}
+                                    className="flex flex-col gap-1 bg-slate-800 hover:bg-slate-700 rounded-md p-1 transition-colors"
+                                >
+                                    <div className="w-full aspect-video bg-slate-950 rounded-sm overflow-hidden flex items-center justify-center">
+                                        {session.thumbnail ? (
+                                            <img src={session.thumbnail} className="w-full h-full object-cover" />
+                                        ) : (
+                                            <ImageIcon size={14} className="text-slate-600" />
+                                        )}
+                                    </div>
+                                    <span className="text-[8px] text-slate-400 truncate">{formatTime(session.updatedAt)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <button onClick={onDismiss} className="w-full py-1.5 text-[10px] font-semibold text-slate-400 hover:text-white">
+                    Start fresh
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -2,7 +2,7 @@ import React from 'react';
 import { MaskType } from '../types';
 import { 
   Circle, Square, Star, Heart, Type, SplitSquareHorizontal, 
-  Film, Brush, PenTool, Hand
+  Film, Brush, PenTool, Eraser, Hand, Move, SplinePointer, Hexagon, Donut
 } from 'lucide-react';
 
 interface ToolbarProps {
@@ -12,12 +12,17 @@ interface ToolbarProps {
 
 const tools = [
   { type: MaskType.HAND, icon: Hand, label: 'Pan' },
+  { type: MaskType.MOVE, icon: Move, label: 'Move' },
   { type: MaskType.CIRCLE, icon: Circle, label: 'Circle' },
   { type: MaskType.RECTANGLE, icon: Square, label: 'Rect' },
+  { type: MaskType.POLYGON, icon: Hexagon, label: 'Poly' },
+  { type: MaskType.RING, icon: Donut, label: 'Ring' },
   { type: MaskType.HEART, icon: Heart, label: 'Heart' },
   { type: MaskType.STAR, icon: Star, label: 'Star' },
   { type: MaskType.BRUSH, icon: Brush, label: 'Brush' },
   { type: MaskType.PEN, icon: PenTool, label: 'Pen' },
+  { type: MaskType.ERASER, icon: Eraser, label: 'Eraser' },
+  { type: MaskType.PATH, icon: SplinePointer, label: 'Path' },
   { type: MaskType.TEXT, icon: Type, label: 'Text' },
   { type: MaskType.SPLIT, icon: SplitSquareHorizontal, label: 'Split' },
   { type: MaskType.FILMSTRIP, icon: Film, label: 'Film' },
@@ -0,0 +1,3 @@
+// Segmented option buttons shared by the document dialogs
+export const optionClass = (active: boolean) =>
+  `flex-1 h-6 rounded-md text-[9px] font-bold transition-all ${active ? 'bg-indigo-600 text-white shadow-sm' : 'bg-slate-800 text-slate-400 hover:text-white'}`;
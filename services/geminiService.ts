@@ -1,85 +1,64 @@
-import { GoogleGenAI, Modality } from "@google/genai";
+import { GoogleGenAI, Modality, Part } from "@google/genai";
+import {
+  INPAINT_PROMPT, ImageProvider, ImageProviderError, ProviderDescriptor, ProviderSettings, SEGMENT_PROMPT,
+  UPSCALE_PROMPT, getDataUrlMimeType, stripDataUrl
+} from './providerTypes';
 
-const apiKey = process.env.API_KEY;
-let ai: GoogleGenAI | null = null;
+const DEFAULT_MODEL = 'gemini-2.5-flash-image';
 
-if (apiKey) {
-    ai = new GoogleGenAI({ apiKey });
-}
+const createGeminiProvider = (settings: ProviderSettings): ImageProvider => {
+  // A key entered in settings wins over the one baked in at build time
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  const model = settings.model || DEFAULT_MODEL;
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
 
-export const generateBackgroundImage = async (prompt: string): Promise<string | null> => {
-  if (!ai) {
-    console.error("API Key not found.");
-    return null;
-  }
-
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-        ],
-      },
-      config: {
-          responseModalities: [Modality.IMAGE],
-      },
-    });
-
-    const part = response.candidates?.[0]?.content?.parts?.[0];
-    if (part && part.inlineData) {
-        const base64ImageBytes: string = part.inlineData.data;
-        return `data:image/png;base64,${base64ImageBytes}`;
+  const requestImage = async (parts: Part[], action: string): Promise<string> => {
+    if (!ai) {
+      throw new ImageProviderError("Gemini API key not set. Add one in AI settings.");
     }
-    return null;
-
-  } catch (error) {
-    console.error("Error generating image:", error);
-    return null;
-  }
-};
-
-export const upscaleImage = async (imageBase64: string): Promise<string | null> => {
-  if (!ai) {
-    console.error("API Key not found.");
-    return null;
-  }
 
-  try {
-    // Strip prefix if present (e.g. "data:image/png;base64,")
-    const cleanBase64 = imageBase64.includes(',') ? imageBase64.split(',')[1] : imageBase64;
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: { parts },
+        config: {
+            responseModalities: [Modality.IMAGE],
+        },
+      });
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-             inlineData: {
-               mimeType: 'image/png',
-               data: cleanBase64
-             }
-          },
-          {
-            text: "Transform this image into a high-end, ultra-realistic 8K masterpiece. Maximize detail, sharpness, and clarity. Significantly enhance texture details, fix lighting anomalies, and eliminate noise while strictly maintaining the original subject and composition. Output an Ultra HD, 8K production-quality image.",
-          },
-        ],
-      },
-      config: {
-          responseModalities: [Modality.IMAGE],
-      },
-    });
+      const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data);
+      if (part?.inlineData?.data) {
+          return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+    } catch (error) {
+      console.error(`Error ${action} image:`, error);
+      throw new ImageProviderError(`Gemini request failed while ${action} the image.`);
+    }
+    throw new ImageProviderError(`Gemini returned no image while ${action}.`);
+  };
 
-    const part = response.candidates?.[0]?.content?.parts?.[0];
-    if (part && part.inlineData) {
-        const base64ImageBytes: string = part.inlineData.data;
-        return `data:image/png;base64,${base64ImageBytes}`;
+  const imagePart = (image: string): Part => ({
+    inlineData: {
+      mimeType: getDataUrlMimeType(image),
+      data: stripDataUrl(image)
     }
-    return null;
+  });
+
+  return {
+    generate: (prompt) => requestImage([{ text: prompt }], 'generating'),
+    upscale: (image) => requestImage([imagePart(image), { text: UPSCALE_PROMPT }], 'upscaling'),
+    edit: (image, prompt) => requestImage([imagePart(image), { text: prompt }], 'editing'),
+    inpaint: (image, mask, prompt) =>
+      requestImage([imagePart(image), imagePart(mask), { text: `${INPAINT_PROMPT} ${prompt}` }], 'inpainting'),
+    segment: (image) => requestImage([imagePart(image), { text: SEGMENT_PROMPT }], 'segmenting'),
+  };
+};
 
-  } catch (error) {
-    console.error("Error upscaling image:", error);
-    return null;
-  }
-};
\ No newline at end of file
+export const geminiProvider: ProviderDescriptor = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: DEFAULT_MODEL,
+  needsApiKey: true,
+  needsEndpoint: false,
+  create: createGeminiProvider,
+};
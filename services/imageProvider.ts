@@ -0,0 +1,62 @@
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockImageService';
+import { sdWebUiProvider } from './sdWebUiService';
+import { ImageProvider, ProviderDescriptor, ProviderId, ProviderSettings } from './providerTypes';
+
+const SETTINGS_KEY = 'mask-master:provider-settings';
+
+export const PROVIDERS: ProviderDescriptor[] = [geminiProvider, sdWebUiProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  model: '',
+  apiKey: '',
+  endpoint: '',
+};
+
+export const getProviderDescriptor = (id: ProviderId): ProviderDescriptor =>
+  PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+let activeSettings = loadProviderSettings();
+let activeProvider: ImageProvider | null = null;
+
+export const getProviderSettings = () => activeSettings;
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  activeSettings = settings;
+  activeProvider = null;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving provider settings:", error);
+  }
+};
+
+const getProvider = (): ImageProvider => {
+  if (!activeProvider) {
+    activeProvider = getProviderDescriptor(activeSettings.providerId).create(activeSettings);
+  }
+  return activeProvider;
+};
+
+// App-facing calls; each rejects with an ImageProviderError the UI can show as-is
+
+export const generateBackgroundImage = (prompt: string): Promise<string> => getProvider().generate(prompt);
+
+export const upscaleImage = (imageBase64: string): Promise<string> => getProvider().upscale(imageBase64);
+
+export const editImage = (imageBase64: string, prompt: string): Promise<string> => getProvider().edit(imageBase64, prompt);
+
+export const inpaintImage = (imageBase64: string, maskBase64: string, prompt: string): Promise<string> =>
+  getProvider().inpaint(imageBase64, maskBase64, prompt);
+
+export const segmentImage = (imageBase64: string): Promise<string> => getProvider().segment(imageBase64);
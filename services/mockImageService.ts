@@ -0,0 +1,87 @@
+import { createCanvas } from '../utils/drawUtils';
+import { loadImage } from '../utils/imageUtils';
+import { ImageProvider, ImageProviderError, ProviderDescriptor } from './providerTypes';
+
+// Stable 32-bit hash so the same prompt always renders the same picture
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const toDataUrl = (canvas: HTMLCanvasElement) => canvas.toDataURL('image/png');
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageProviderError("Canvas is not available.");
+  return ctx;
+};
+
+const tint = async (image: string, prompt: string) => {
+  const img = await loadImage(image);
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = getContext(canvas);
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'color';
+  ctx.fillStyle = `hsl(${hashString(prompt) % 360}, 60%, 50%)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return toDataUrl(canvas);
+};
+
+// Offline, deterministic stand-in for demos and development without an API key
+const createMockProvider = (): ImageProvider => ({
+  generate: async (prompt) => {
+    const hash = hashString(prompt);
+    const canvas = createCanvas(1024, 1024);
+    const ctx = getContext(canvas);
+
+    const gradient = ctx.createLinearGradient(0, 0, 1024, 1024);
+    gradient.addColorStop(0, `hsl(${hash % 360}, 70%, 55%)`);
+    gradient.addColorStop(1, `hsl(${(hash >> 9) % 360}, 70%, 25%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, 1024, 1024);
+
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.font = '600 48px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(prompt.slice(0, 32), 512, 512);
+    return toDataUrl(canvas);
+  },
+  upscale: async (image) => {
+    const img = await loadImage(image);
+    const canvas = createCanvas(img.width * 2, img.height * 2);
+    const ctx = getContext(canvas);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return toDataUrl(canvas);
+  },
+  edit: (image, prompt) => tint(image, prompt),
+  // The caller keeps everything outside the mask, so tinting the whole image is enough
+  inpaint: (image, _mask, prompt) => tint(image, prompt),
+  // A centered ellipse stands in for the subject
+  segment: async (image) => {
+    const img = await loadImage(image);
+    const canvas = createCanvas(img.width, img.height);
+    const ctx = getContext(canvas);
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.beginPath();
+    ctx.ellipse(canvas.width / 2, canvas.height * 0.55, canvas.width * 0.3, canvas.height * 0.4, 0, 0, Math.PI * 2);
+    ctx.fill();
+    return toDataUrl(canvas);
+  },
+});
+
+export const mockProvider: ProviderDescriptor = {
+  id: 'mock',
+  label: 'Local Mock',
+  defaultModel: '',
+  needsApiKey: false,
+  needsEndpoint: false,
+  create: createMockProvider,
+};
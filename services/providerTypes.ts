@@ -0,0 +1,47 @@
+// Images travel as data URLs ("data:image/png;base64,...") in both directions
+export interface ImageProvider {
+  generate(prompt: string): Promise<string>;
+  upscale(image: string): Promise<string>;
+  edit(image: string, prompt: string): Promise<string>;
+  // mask is an opaque matte the size of image: white is regenerated, black is kept
+  inpaint(image: string, mask: string, prompt: string): Promise<string>;
+  // Returns a matte of the main subject: white on black, same framing as image
+  segment(image: string): Promise<string>;
+}
+
+export type ProviderId = 'gemini' | 'sd-webui' | 'mock';
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  model: string; // Empty uses the provider's default
+  apiKey: string;
+  endpoint: string; // Base URL for self-hosted backends
+}
+
+export interface ProviderDescriptor {
+  id: ProviderId;
+  label: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+  needsEndpoint: boolean;
+  create: (settings: ProviderSettings) => ImageProvider;
+}
+
+// Raised for anything the user can act on: missing key, unreachable backend, empty response
+export class ImageProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProviderError';
+  }
+}
+
+export const UPSCALE_PROMPT = "Transform this image into a high-end, ultra-realistic 8K masterpiece. Maximize detail, sharpness, and clarity. Significantly enhance texture details, fix lighting anomalies, and eliminate noise while strictly maintaining the original subject and composition. Output an Ultra HD, 8K production-quality image.";
+
+export const INPAINT_PROMPT = "The second image is a black-and-white mask for the first. Repaint only the white area of the mask so it blends seamlessly with the rest of the image, keep everything under the black area unchanged, and return the full image at the same size and framing. Fill the white area with:";
+
+export const SEGMENT_PROMPT = "Create a segmentation mask of the main subject of this image. Paint the subject pure white and everything else pure black, with no shading, text or other content. Keep the exact size and framing of the input image.";
+
+// Strip prefix if present (e.g. "data:image/png;base64,")
+export const stripDataUrl = (image: string) => (image.includes(',') ? image.split(',')[1] : image);
+
+export const getDataUrlMimeType = (image: string) => image.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
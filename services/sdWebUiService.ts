@@ -0,0 +1,110 @@
+import { loadImage } from '../utils/imageUtils';
+import {
+  ImageProvider, ImageProviderError, ProviderDescriptor, ProviderSettings, stripDataUrl
+} from './providerTypes';
+
+const DEFAULT_ENDPOINT = 'http://127.0.0.1:7860';
+const DEFAULT_UPSCALER = 'R-ESRGAN 4x+';
+const SEGMENT_MODEL = 'isnet-general-use';
+
+// Talks to the AUTOMATIC1111 Stable Diffusion WebUI API (and forks such as Forge), started with --api
+const createSdWebUiProvider = (settings: ProviderSettings): ImageProvider => {
+  const endpoint = (settings.endpoint || DEFAULT_ENDPOINT).replace(/\/+$/, '');
+
+  const post = async <T>(path: string, body: object): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // The WebUI protects its API with --api-auth user:password
+    if (settings.apiKey) headers.Authorization = `Basic ${btoa(settings.apiKey)}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint}${path}`, { method: 'POST', headers, body: JSON.stringify(body) });
+    } catch (error) {
+      console.error("Error reaching Stable Diffusion WebUI:", error);
+      throw new ImageProviderError(`Could not reach ${endpoint}. Is the WebUI running with --api and --cors-allow-origins?`);
+    }
+    if (!response.ok) {
+      throw new ImageProviderError(`Stable Diffusion WebUI answered ${response.status} ${response.statusText}.`);
+    }
+    return response.json();
+  };
+
+  const toDataUrl = (base64: string | undefined) => {
+    if (!base64) throw new ImageProviderError("Stable Diffusion WebUI returned no image.");
+    return `data:image/png;base64,${stripDataUrl(base64)}`;
+  };
+
+  // Switches checkpoint for this request only when a model is configured
+  const overrideSettings = settings.model ? { override_settings: { sd_model_checkpoint: settings.model } } : {};
+
+  // img2img renders at 512x512 unless told otherwise; dimensions must be multiples of 8
+  const getOutputSize = async (image: string) => {
+    const img = await loadImage(image);
+    return { width: Math.round(img.width / 8) * 8, height: Math.round(img.height / 8) * 8 };
+  };
+
+  return {
+    generate: async (prompt) => {
+      const result = await post<{ images?: string[] }>('/sdapi/v1/txt2img', {
+        prompt,
+        steps: 30,
+        width: 1024,
+        height: 1024,
+        ...overrideSettings,
+      });
+      return toDataUrl(result.images?.[0]);
+    },
+    upscale: async (image) => {
+      const result = await post<{ image?: string }>('/sdapi/v1/extra-single-image', {
+        image: stripDataUrl(image),
+        upscaling_resize: 2,
+        upscaler_1: DEFAULT_UPSCALER,
+      });
+      return toDataUrl(result.image);
+    },
+    edit: async (image, prompt) => {
+      const result = await post<{ images?: string[] }>('/sdapi/v1/img2img', {
+        init_images: [stripDataUrl(image)],
+        prompt,
+        denoising_strength: 0.6,
+        steps: 30,
+        ...(await getOutputSize(image)),
+        ...overrideSettings,
+      });
+      return toDataUrl(result.images?.[0]);
+    },
+    inpaint: async (image, mask, prompt) => {
+      const result = await post<{ images?: string[] }>('/sdapi/v1/img2img', {
+        init_images: [stripDataUrl(image)],
+        mask: stripDataUrl(mask),
+        prompt,
+        denoising_strength: 0.9,
+        inpainting_fill: 1, // Start from the original pixels
+        inpaint_full_res: false,
+        mask_blur: 4,
+        steps: 30,
+        ...(await getOutputSize(image)),
+        ...overrideSettings,
+      });
+      return toDataUrl(result.images?.[0]);
+    },
+    // Needs the stable-diffusion-webui-rembg extension
+    segment: async (image) => {
+      const result = await post<{ image?: string }>('/rembg', {
+        input_image: stripDataUrl(image),
+        model: SEGMENT_MODEL,
+        return_mask: true,
+      });
+      return toDataUrl(result.image);
+    },
+  };
+};
+
+export const sdWebUiProvider: ProviderDescriptor = {
+  id: 'sd-webui',
+  label: 'Stable Diffusion WebUI',
+  defaultModel: '',
+  needsApiKey: false,
+  needsEndpoint: true,
+  create: createSdWebUiProvider,
+};
@@ -0,0 +1,220 @@
+import { HistoryEntry, LayerImages, MaskAssets, MaskConfig, Size, Transform } from '../types';
+import { loadImage } from '../utils/imageUtils';
+import { extractInlineAssets, normalizeMaskConfig, toDocumentSpace } from '../utils/projectFile';
+
+const DB_NAME = 'mask-master';
+const DB_VERSION = 2;
+const STORE = 'sessions';
+// Id, time and thumbnail of each session, so listing and pruning don't read whole sessions with their history
+const SUMMARY_STORE = 'summaries';
+const MAX_SESSIONS = 5;
+// Undo steps kept with a session in each direction; older ones only live in the open tab
+const MAX_SAVED_HISTORY = 30;
+
+export interface SessionSnapshot {
+  id: string;
+  images: LayerImages;
+  assets: MaskAssets; // Shared by the config and its history, so each bitmap is stored once
+  maskConfig: MaskConfig;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  canvasSize: Size;
+  transform: Transform;
+  thumbnail: string | null;
+}
+
+export interface SessionSummary {
+  id: string;
+  updatedAt: number;
+  thumbnail: string | null;
+}
+
+// Sessions saved before the document size was part of undo hold bare configs in their history
+type StoredHistoryEntry = HistoryEntry | MaskConfig;
+
+interface StoredSession extends Omit<SessionSnapshot, 'images' | 'assets' | 'past' | 'future'> {
+  updatedAt: number;
+  past: StoredHistoryEntry[];
+  future: StoredHistoryEntry[];
+  documentSpace?: boolean; // Unset for sessions saved while mask geometry was in pixels
+  images?: Record<string, Blob>;
+  assets?: MaskAssets; // Unset for sessions whose raster masks were inline
+  // Sessions saved before layers kept exactly these two images
+  foreground?: Blob | null;
+  background?: Blob | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) db.createObjectStore(STORE, { keyPath: 'id' });
+        if (event.oldVersion < 2) {
+          const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          // Sessions saved before summaries had their own store are read once here
+          const cursorRequest = request.transaction?.objectStore(STORE).openCursor();
+          if (cursorRequest) {
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const { id, updatedAt, thumbnail } = cursor.value as StoredSession;
+              summaries.put({ id, updatedAt, thumbnail });
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if the browser refused (private mode, quota)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Writes to sessions and their summaries together, so the two never disagree
+const runWrite = async (run: (sessions: IDBObjectStore, summaries: IDBObjectStore) => void): Promise<void> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE, SUMMARY_STORE], 'readwrite');
+    run(transaction.objectStore(STORE), transaction.objectStore(SUMMARY_STORE));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Encoding is the slow part of a save, so each image is only turned into a blob once
+const blobCache = new WeakMap<HTMLImageElement, Promise<Blob>>();
+
+const imageToBlob = (img: HTMLImageElement): Promise<Blob> => {
+  let blob = blobCache.get(img);
+  if (!blob) {
+    blob = fetch(img.src).then(response => response.blob());
+    blobCache.set(img, blob);
+  }
+  return blob;
+};
+
+// The URL is only needed for decoding; later saves reuse the cached blob rather than fetching it
+const blobToImage = async (blob: Blob): Promise<HTMLImageElement> => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    blobCache.set(img, Promise.resolve(blob));
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const pruneSessions = async () => {
+  const stale = (await listSessions()).slice(MAX_SESSIONS);
+  if (stale.length === 0) return;
+  await runWrite((sessions, summaries) => stale.forEach(({ id }) => {
+    sessions.delete(id);
+    summaries.delete(id);
+  }));
+};
+
+export const saveSession = async (snapshot: SessionSnapshot) => {
+  const images = Object.fromEntries(await Promise.all(
+    Object.entries(snapshot.images).map(async ([id, img]) => [id, await imageToBlob(img)] as const)
+  ));
+  const record: StoredSession = {
+    ...snapshot,
+    images,
+    past: snapshot.past.slice(-MAX_SAVED_HISTORY),
+    future: snapshot.future.slice(0, MAX_SAVED_HISTORY),
+    updatedAt: Date.now(),
+    documentSpace: true,
+  };
+  const summary: SessionSummary = { id: record.id, updatedAt: record.updatedAt, thumbnail: record.thumbnail };
+  await runWrite((sessions, summaries) => {
+    sessions.put(record);
+    summaries.put(summary);
+  });
+  await pruneSessions();
+};
+
+// Most recent first
+export const listSessions = async (): Promise<SessionSummary[]> => {
+  const summaries = await runRequest<SessionSummary[]>(SUMMARY_STORE, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadSession = async (id: string): Promise<SessionSnapshot | null> => {
+  const record = await runRequest<StoredSession | undefined>(STORE, 'readonly', store => store.get(id));
+  if (!record) return null;
+  const { foreground, background, documentSpace, ...rest } = record;
+  const blobs = record.images ?? {
+    ...(background ? { background } : {}),
+    ...(foreground ? { foreground } : {}),
+  };
+  const images: LayerImages = Object.fromEntries(await Promise.all(
+    Object.entries(blobs).map(async ([id, blob]) => [id, await blobToImage(blob)] as const)
+  ));
+  // Sessions may predate fields added since, same as project files
+  const assets: MaskAssets = { ...record.assets };
+  const normalize = (config: MaskConfig) => normalizeMaskConfig(
+    extractInlineAssets(documentSpace ? config : toDocumentSpace(config, record.canvasSize), assets)
+  );
+  const normalizeEntry = (entry: StoredHistoryEntry): HistoryEntry => ('canvasSize' in entry
+    ? { maskConfig: normalize(entry.maskConfig), canvasSize: entry.canvasSize }
+    : { maskConfig: normalize(entry), canvasSize: record.canvasSize });
+  return {
+    ...rest,
+    images,
+    assets,
+    maskConfig: normalize(record.maskConfig),
+    past: record.past.map(normalizeEntry),
+    future: record.future.map(normalizeEntry),
+  };
+};
+
+// Coalesces rapid changes into at most one write per `delay` ms, always ending with the latest snapshot
+export const createAutosaver = (delay: number) => {
+  let pending: (() => SessionSnapshot) | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let lastWrite = 0;
+
+  const flush = async () => {
+    timer = null;
+    const getSnapshot = pending;
+    pending = null;
+    if (!getSnapshot) return;
+    lastWrite = Date.now();
+    try {
+      await saveSession(getSnapshot());
+    } catch (error) {
+      console.error("Error autosaving session:", error);
+    }
+  };
+
+  return {
+    // The snapshot is built lazily so thumbnails are only rendered for writes that actually happen
+    schedule(getSnapshot: () => SessionSnapshot) {
+      pending = getSnapshot;
+      if (timer) return;
+      timer = setTimeout(flush, Math.max(0, delay - (Date.now() - lastWrite)));
+    },
+  };
+};
@@ -1,15 +1,22 @@
 export enum MaskType {
   NONE = 'None',
   HAND = 'Hand',
+  MOVE = 'Move', // Tool only: drags the active layer's image under its fixed mask
   CIRCLE = 'Circle',
   RECTANGLE = 'Rectangle',
+  POLYGON = 'Polygon',
+  RING = 'Ring',
   HEART = 'Heart',
   STAR = 'Stars',
   TEXT = 'Text',
   SPLIT = 'Split',
   FILMSTRIP = 'Filmstrip',
   BRUSH = 'Brush',
-  PEN = 'Pen' // Thinner/harder brush
+  PEN = 'Pen', // Thinner/harder brush
+  ERASER = 'Eraser', // Tool only: lays subtracting strokes into a Brush item
+  PATH = 'Path', // Bezier path, filled once closed
+  RASTER = 'Raster', // Bitmap mask, e.g. from subject segmentation
+  SVG = 'SVG' // Imported vector outline, e.g. a logo
 }
 
 export interface Point {
@@ -17,18 +24,226 @@ export interface Point {
   y: number;
 }
 
-export interface MaskConfig {
-  type: MaskType; // Current active tool (Interaction Mode)
-  shape: MaskType; // Current geometric shape (Rendering)
+export interface StrokePoint extends Point {
+  pressure: number; // PointerEvent.pressure, 1 for devices without pressure
+}
+
+// How a shape or stroke combines with the mask built up beneath it
+export enum MaskCombineMode {
+  ADD = 'add',
+  SUBTRACT = 'subtract',
+  INTERSECT = 'intersect',
+  EXCLUDE = 'exclude'
+}
+
+// Where a feathered edge falls relative to the hard edge
+export enum FeatherMode {
+  INNER = 'inner',
+  CENTER = 'center',
+  OUTER = 'outer'
+}
+
+// How a layer mixes with everything below it; values are canvas globalCompositeOperation names
+export enum BlendMode {
+  NORMAL = 'source-over',
+  MULTIPLY = 'multiply',
+  SCREEN = 'screen',
+  OVERLAY = 'overlay',
+  SOFT_LIGHT = 'soft-light',
+  DIFFERENCE = 'difference',
+  COLOR = 'color',
+  LUMINOSITY = 'luminosity'
+}
+
+// How a layer image is sized to the document before its own transform applies
+export enum LayerFit {
+  COVER = 'cover',
+  CONTAIN = 'contain',
+  STRETCH = 'stretch',
+  ORIGINAL = 'original' // Image pixels map 1:1 onto document pixels
+}
+
+// Mask geometry is resolution-free so it survives any resize or export scale:
+// positions are fractions of the document's width/height, lengths fractions of its shorter side.
+
+export interface BrushStroke {
+  points: StrokePoint[]; // Item space, normalized like positions
+  mode: MaskCombineMode;
+  size: number; // Length
+  hardness: number; // 0 (soft) - 1 (hard edge)
+  opacity: number;
+}
+
+// Values for the parameters a shape declares in the shape registry, keyed by parameter
+export type ShapeParams = Record<string, number>;
+
+// A node of a bezier path. Handles are absolute positions in the same space as the anchor;
+// a handle sitting on its anchor makes that side a straight line.
+export interface PathAnchor {
   x: number;
   y: number;
-  scale: number;
+  handleIn: Point;
+  handleOut: Point;
+}
+
+// Outline imported from an SVG file or pasted path data, stored as path data so it renders the same later
+export interface SvgShape {
+  name: string;
+  viewBox: { x: number; y: number; width: number; height: number };
+  paths: { d: string; transform: number[] | null }[]; // transform: a b c d e f from the element's groups
+  fillRule: CanvasFillRule;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  fontFamily: string; // Built-in family or one of MaskConfig.fonts
+  fontWeight: number; // 100-900
+  italic: boolean;
+  lineHeight: number; // Multiple of the font size
+  align: TextAlign; // Lines within the text block
+  letterSpacing: number; // Fraction of the font size added after each character
+  arc: number; // Degrees the text bends through; positive curves over a circle, negative under, 0 is straight
+}
+
+// A font file loaded by the user; the file itself is a MaskAssets entry so projects render with it anywhere
+export interface CustomFont {
+  family: string;
+  assetId: string;
+}
+
+export interface MaskItem {
+  id: string;
+  shape: MaskType; // Geometric shape (Rendering)
+  params: ShapeParams; // Missing entries use the shape's defaults
+  visible: boolean;
+  mode: MaskCombineMode; // Shapes only, brush strokes carry their own
+  feather: number; // Soft edge radius as a length, 0 for a hard edge
+  x: number; // Normalized 0-1
+  y: number; // Normalized 0-1
+  scaleX: number;
+  scaleY: number;
+  skewX: number; // Degrees, applied before scaling
+  skewY: number;
   rotation: number;
   text: string;
-  fontSize: number;
-  brushPoints: Point[][]; // Array of strokes (each stroke is array of points)
-  brushSize: number;
+  fontSize: number; // Length
+  textStyle: TextStyle;
+  strokes: BrushStroke[]; // Brush items only, applied in order
+  anchors: PathAnchor[]; // Path items only, item space like stroke points
+  closed: boolean; // Path items only; open paths are outlines still being drawn and fill nothing
+  imageId: string; // Raster items only: MaskAssets entry with a white-on-transparent PNG covering the document
+  svg: SvgShape | null; // SVG items only
+}
+
+// One image in the layer stack. The pixels live outside the config (see LayerImages)
+// so that history snapshots stay small.
+export interface ImageLayer {
+  id: string;
+  name: string;
+  visible: boolean;
   opacity: number;
+  blendMode: BlendMode;
+  // Placement of the image; the mask stays put in document space
+  fit: LayerFit;
+  x: number; // Image center, normalized to the document
+  y: number;
+  scale: number; // On top of the fit
+  rotation: number; // Degrees
+  flipX: boolean;
+  flipY: boolean;
+  items: MaskItem[]; // The layer's mask stack, drawn bottom to top. Empty leaves the layer unmasked.
+  feather: number; // Length, applied to the whole mask after the items are combined
+  featherMode: FeatherMode;
+}
+
+// Layer images keyed by layer id
+export type LayerImages = Record<string, HTMLImageElement>;
+
+// Data URLs of raster mask bitmaps and font files keyed by asset id. Like layer images they stay outside the config,
+// which only refers to them by id.
+export type MaskAssets = Record<string, string>;
+
+export interface MaskConfig {
+  type: MaskType; // Current active tool (Interaction Mode)
+  layers: ImageLayer[]; // Drawn bottom to top
+  activeLayerId: string | null; // Layer whose mask the tools edit
+  selectedId: string | null; // Mask item within the active layer
+  // Settings for new brush strokes, recorded on each stroke when drawn
+  brushMode: MaskCombineMode;
+  brushSize: number; // Length
+  brushHardness: number;
+  brushOpacity: number;
+  brushSmoothing: number; // 0-0.95, how far the stroke lags behind the pointer to steady it
+  fonts: CustomFont[]; // Loaded font files text items can use
+}
+
+// One undo step. Mask geometry is normalized to the document, so the size it was measured against goes with it.
+export interface HistoryEntry {
+  maskConfig: MaskConfig;
+  canvasSize: Size;
+}
+
+export interface Transform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export enum ExportFormat {
+  PNG = 'image/png',
+  JPEG = 'image/jpeg',
+  WEBP = 'image/webp'
+}
+
+export enum ExportContent {
+  COMPOSITE = 'composite',
+  MASK = 'mask', // Black-and-white alpha matte of the active layer
+  FOREGROUND = 'foreground', // Masked active layer on transparent
+  MASK_SVG = 'mask-svg'
+}
+
+export interface ExportOptions {
+  content: ExportContent;
+  scale: number; // Output pixels per document pixel
+  format: ExportFormat;
+  quality: number; // 0-1, JPEG/WebP only
+}
+
+// Pixels added (or removed, when negative) on each side of the document
+export interface Insets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export enum AiEditMode {
+  INPAINT = 'inpaint', // Regenerate inside the mask
+  OUTPAINT = 'outpaint' // Grow the canvas and fill the new border
+}
+
+export enum AiEditSource {
+  COMPOSITE = 'composite',
+  LAYER = 'layer' // The active layer
+}
+
+export enum AiEditTarget {
+  NEW_LAYER = 'new-layer', // Added above the active layer
+  REPLACE_LAYER = 'replace-layer' // Replaces the active layer's image
+}
+
+export interface AiEditOptions {
+  mode: AiEditMode;
+  source: AiEditSource;
+  target: AiEditTarget;
+  prompt: string;
+  expand: number; // Outpaint only: growth per side as a fraction of the document size
 }
 
 export interface AppState {
@@ -39,16 +254,70 @@ export interface AppState {
   isDrawing: boolean;
 }
 
-export const DEFAULT_MASK_CONFIG: MaskConfig = {
-  type: MaskType.CIRCLE,
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Inter',
+  fontWeight: 900,
+  italic: false,
+  lineHeight: 1.2,
+  align: 'center',
+  letterSpacing: 0,
+  arc: 0,
+};
+
+export const DEFAULT_MASK_ITEM: MaskItem = {
+  id: 'mask-1',
   shape: MaskType.CIRCLE,
-  x: 0.5, // Normalized 0-1
-  y: 0.5, // Normalized 0-1
-  scale: 0.4,
+  params: {},
+  visible: true,
+  mode: MaskCombineMode.ADD,
+  feather: 0,
+  x: 0.5,
+  y: 0.5,
+  scaleX: 0.4,
+  scaleY: 0.4,
+  skewX: 0,
+  skewY: 0,
   rotation: 0,
   text: "MASK",
-  fontSize: 100,
-  brushPoints: [],
-  brushSize: 20,
+  fontSize: 0.15,
+  textStyle: DEFAULT_TEXT_STYLE,
+  strokes: [],
+  anchors: [],
+  closed: false,
+  imageId: '',
+  svg: null,
+};
+
+export const DEFAULT_IMAGE_LAYER: ImageLayer = {
+  id: 'layer',
+  name: 'Layer',
+  visible: true,
   opacity: 1,
-};
\ No newline at end of file
+  blendMode: BlendMode.NORMAL,
+  fit: LayerFit.COVER,
+  x: 0.5,
+  y: 0.5,
+  scale: 1,
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  items: [],
+  feather: 0,
+  featherMode: FeatherMode.CENTER,
+};
+
+export const DEFAULT_MASK_CONFIG: MaskConfig = {
+  type: MaskType.CIRCLE,
+  layers: [
+    { ...DEFAULT_IMAGE_LAYER, id: 'background', name: 'Background' },
+    { ...DEFAULT_IMAGE_LAYER, id: 'foreground', name: 'Foreground', items: [DEFAULT_MASK_ITEM] },
+  ],
+  activeLayerId: 'foreground',
+  selectedId: DEFAULT_MASK_ITEM.id,
+  brushMode: MaskCombineMode.ADD,
+  brushSize: 0.03,
+  brushHardness: 1,
+  brushOpacity: 1,
+  brushSmoothing: 0.5,
+  fonts: [],
+};
@@ -1,157 +1,116 @@
-import { MaskType, Point } from '../types';
+import { BrushStroke, MaskType, PathAnchor, ShapeParams, StrokePoint, SvgShape, TextStyle } from '../types';
+import { traceMaskShape } from './shapeRegistry';
+import { getSvgFrame, getSvgPath2D } from './svgShape';
+import { getCurveSegments } from './strokeUtils';
+import { drawText } from './textLayout';
 
-export const drawStar = (ctx: CanvasRenderingContext2D, cx: number, cy: number, spikes: number, outerRadius: number, innerRadius: number) => {
-  let rot = (Math.PI / 2) * 3;
-  let x = cx;
-  let y = cy;
-  const step = Math.PI / spikes;
+export const PEN_SIZE = 0.006; // Fraction of the document's shorter side
 
-  ctx.beginPath();
-  ctx.moveTo(cx, cy - outerRadius);
-  for (let i = 0; i < spikes; i++) {
-    x = cx + Math.cos(rot) * outerRadius;
-    y = cy + Math.sin(rot) * outerRadius;
-    ctx.lineTo(x, y);
-    rot += step;
+// Keeps feather-light pen touches visible
+const MIN_PRESSURE = 0.1;
 
-    x = cx + Math.cos(rot) * innerRadius;
-    y = cy + Math.sin(rot) * innerRadius;
-    ctx.lineTo(x, y);
-    rot += step;
-  }
-  ctx.lineTo(cx, cy - outerRadius);
-  ctx.closePath();
-  ctx.fill();
+// Most browsers refuse to allocate canvases beyond this edge length
+export const MAX_CANVAS_EDGE = 16384;
+
+export const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
 };
 
-export const drawHeart = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number) => {
-  const topCurveHeight = height * 0.3;
-  ctx.beginPath();
-  ctx.moveTo(x, y + topCurveHeight);
-  // top left curve
-  ctx.bezierCurveTo(
-    x, y, 
-    x - width / 2, y, 
-    x - width / 2, y + topCurveHeight
-  );
-  // bottom left curve
-  ctx.bezierCurveTo(
-    x - width / 2, y + (height + topCurveHeight) / 2, 
-    x, y + (height + topCurveHeight) / 2, 
-    x, y + height
-  );
-  // bottom right curve
-  ctx.bezierCurveTo(
-    x, y + (height + topCurveHeight) / 2, 
-    x + width / 2, y + (height + topCurveHeight) / 2, 
-    x + width / 2, y + topCurveHeight
-  );
-  // top right curve
-  ctx.bezierCurveTo(
-    x + width / 2, y, 
-    x, y, 
-    x, y + topCurveHeight
-  );
-  ctx.closePath();
-  ctx.fill();
+// Geometry is traced into any CanvasPath-like sink (canvas context, Path2D or the SVG exporter),
+// so the on-screen mask and exported vector paths come from the same code
+export type PathSink = Pick<CanvasPath, 'moveTo' | 'lineTo' | 'bezierCurveTo' | 'arc' | 'rect' | 'closePath'>;
+
+// Bezier path through the anchors; closing adds the segment from the last anchor back to the first
+export const tracePath = (path: PathSink, anchors: PathAnchor[], closed: boolean) => {
+  if (anchors.length === 0) return;
+  path.moveTo(anchors[0].x, anchors[0].y);
+  const segments = closed ? anchors.length : anchors.length - 1;
+  for (let i = 0; i < segments; i++) {
+    const from = anchors[i];
+    const to = anchors[(i + 1) % anchors.length];
+    path.bezierCurveTo(from.handleOut.x, from.handleOut.y, to.handleIn.x, to.handleIn.y, to.x, to.y);
+  }
+  if (closed) path.closePath();
 };
 
-export const drawFilmstrip = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    // Draw 3 frames
-    const frameWidth = width * 0.8;
-    const frameHeight = height * 0.25;
-    const gap = height * 0.05;
-    const startY = (height - (frameHeight * 3 + gap * 2)) / 2;
+// Strokes a smooth curve through the points, segment by segment so the width tapers with the pressure recorded at each point
+export const drawStroke = (ctx: CanvasRenderingContext2D, stroke: BrushStroke) => {
+  const { points, size } = stroke;
+  if (points.length < 1) return;
+  const widthAt = (p: StrokePoint) => size * Math.max(p.pressure ?? 1, MIN_PRESSURE);
 
+  if (points.length === 1) {
     ctx.beginPath();
-    // Frame 1
-    ctx.rect((width - frameWidth) / 2, startY, frameWidth, frameHeight);
-    // Frame 2
-    ctx.rect((width - frameWidth) / 2, startY + frameHeight + gap, frameWidth, frameHeight);
-    // Frame 3
-    ctx.rect((width - frameWidth) / 2, startY + (frameHeight + gap) * 2, frameWidth, frameHeight);
-    
-    // Add sprocket holes
-    const holeSize = 10;
-    const holesPerSide = 8;
-    const holeGap = height / holesPerSide;
-    
-    for(let i=0; i<holesPerSide; i++) {
-        ctx.rect(10, i * holeGap + 10, holeSize, holeSize);
-        ctx.rect(width - 10 - holeSize, i * holeGap + 10, holeSize, holeSize);
-    }
-
+    ctx.arc(points[0].x, points[0].y, widthAt(points[0]) / 2, 0, Math.PI * 2);
     ctx.fill();
-}
+    return;
+  }
+
+  getCurveSegments(points).forEach(({ from, cp1, cp2, to }) => {
+    ctx.lineWidth = (widthAt(from) + widthAt(to)) / 2;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.bezierCurveTo(cp1.x, cp1.y, cp2.x, cp2.y, to.x, to.y);
+    ctx.stroke();
+  });
+};
 
+// Draws in document pixels; callers convert the stored, normalized lengths first
 export const drawMaskShape = (
   ctx: CanvasRenderingContext2D, 
   type: MaskType, 
   width: number, 
   height: number, 
+  params: ShapeParams,
   text: string,
   fontSize: number,
-  brushPoints: Point[][],
-  brushSize: number
+  textStyle: TextStyle,
+  strokes: BrushStroke[],
+  anchors: PathAnchor[], // A closed path; open paths aren't filled and are passed empty
+  image: CanvasImageSource | null = null,
+  svg: SvgShape | null = null
 ) => {
   ctx.fillStyle = '#FFFFFF';
   ctx.strokeStyle = '#FFFFFF';
   ctx.lineCap = 'round';
   ctx.lineJoin = 'round';
 
-  const cx = width / 2;
-  const cy = height / 2;
-  const minDim = Math.min(width, height);
+  ctx.beginPath();
+  if (traceMaskShape(ctx, type, width, height, params)) {
+    ctx.fill();
+    return;
+  }
 
   switch (type) {
-    case MaskType.NONE:
-    case MaskType.HAND:
-      // Draw nothing
-      break;
-    case MaskType.CIRCLE:
-      ctx.beginPath();
-      ctx.arc(cx, cy, minDim / 2, 0, Math.PI * 2);
-      ctx.fill();
+    case MaskType.TEXT:
+      drawText(ctx, text, fontSize, textStyle, width / 2, height / 2);
       break;
-    case MaskType.RECTANGLE:
-      ctx.fillRect(0, 0, width, height);
+    case MaskType.BRUSH:
+    case MaskType.PEN:
+      strokes.forEach(stroke => drawStroke(ctx, stroke));
       break;
-    case MaskType.SPLIT:
-      ctx.beginPath();
-      ctx.moveTo(0, 0);
-      ctx.lineTo(width, 0);
-      ctx.lineTo(0, height);
-      ctx.closePath();
+    case MaskType.PATH:
+      tracePath(ctx, anchors, true);
       ctx.fill();
       break;
-    case MaskType.STAR:
-      drawStar(ctx, cx, cy, 5, minDim / 2, minDim / 4);
+    case MaskType.SVG:
+      if (svg) {
+        const frame = getSvgFrame(svg, width, height);
+        ctx.translate(frame.x, frame.y);
+        ctx.scale(frame.scale, frame.scale);
+        ctx.translate(-svg.viewBox.x, -svg.viewBox.y);
+        ctx.fill(getSvgPath2D(svg), svg.fillRule);
+      }
       break;
-    case MaskType.HEART:
-      drawHeart(ctx, cx, cy - minDim/2, minDim, minDim);
+    case MaskType.RASTER:
+      // Already white-on-transparent; stretched over the item's document-sized box
+      if (image) ctx.drawImage(image, 0, 0, width, height);
       break;
-    case MaskType.TEXT:
-      ctx.font = `900 ${fontSize}px Inter, sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText(text, cx, cy);
-      break;
-    case MaskType.FILMSTRIP:
-      drawFilmstrip(ctx, width, height);
-      break;
-    case MaskType.BRUSH:
-    case MaskType.PEN:
-      const size = type === MaskType.PEN ? 4 : brushSize;
-      ctx.lineWidth = size;
-      brushPoints.forEach(stroke => {
-        if (stroke.length < 1) return;
-        ctx.beginPath();
-        ctx.moveTo(stroke[0].x, stroke[0].y);
-        for (let i = 1; i < stroke.length; i++) {
-          ctx.lineTo(stroke[i].x, stroke[i].y);
-        }
-        ctx.stroke();
-      });
+    default:
+      // NONE / HAND draw nothing
       break;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,40 @@
+import { ExportFormat } from '../types';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.PNG]: 'png',
+  [ExportFormat.JPEG]: 'jpg',
+  [ExportFormat.WEBP]: 'webp',
+};
+
+export const downloadText = (text: string, filename: string, mimeType: string) => {
+  downloadBlob(new Blob([text], { type: mimeType }), filename);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // Give the browser a tick to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Canvas is too large to encode'))),
+      format,
+      quality
+    );
+  });
+
+export const downloadCanvas = async (
+  canvas: HTMLCanvasElement,
+  basename: string,
+  format: ExportFormat = ExportFormat.PNG,
+  quality?: number
+) => {
+  const blob = await canvasToBlob(canvas, format, quality);
+  downloadBlob(blob, `${basename}.${EXPORT_EXTENSIONS[format]}`);
+};
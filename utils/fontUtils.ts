@@ -0,0 +1,56 @@
+import { CustomFont, MaskAssets, MaskConfig, MaskType } from '../types';
+import { getTextFont } from './textLayout';
+
+// Families that are always offered: Inter and Playfair Display come with the page, the rest ship with most systems
+export const BUILT_IN_FONTS = ['Inter', 'Playfair Display', 'Georgia', 'Arial', 'Courier New', 'Impact'];
+
+export const FONT_FILE_ACCEPT = '.ttf,.otf,.woff,.woff2';
+
+// Faces already handed to the page with the file they came from, keyed by family, so a font is only decoded once.
+// Another file under the same family (a different project, or a reload after undo) replaces the face.
+const registered = new Map<string, { src: string; face: FontFace }>();
+
+// Text is drawn synchronously, so glyphs in a font that is still loading show up as a fallback until
+// listeners render again once it lands
+export const onFontLoad = (listener: () => void) => {
+  document.fonts.addEventListener('loadingdone', listener);
+  return () => {
+    document.fonts.removeEventListener('loadingdone', listener);
+  };
+};
+
+export const registerFonts = (fonts: CustomFont[], assets: MaskAssets) => {
+  fonts.forEach(font => {
+    const src = assets[font.assetId];
+    const current = registered.get(font.family);
+    if (!src || current?.src === src) return;
+    if (current) document.fonts.delete(current.face);
+    const face = new FontFace(font.family, `url(${src})`);
+    registered.set(font.family, { src, face });
+    document.fonts.add(face);
+    face.load().catch(err => console.error(`Error loading font ${font.family}:`, err));
+  });
+};
+
+// Off-screen renders (export, AI edits) wait for every face text items use
+export const loadMaskFonts = async (config: MaskConfig, assets: MaskAssets) => {
+  registerFonts(config.fonts, assets);
+  await Promise.all(config.layers
+    .flatMap(layer => layer.items)
+    .filter(item => item.shape === MaskType.TEXT)
+    .map(item => document.fonts.load(getTextFont(16, item.textStyle), item.text).catch(() => [])));
+};
+
+// Reads a font file into a data URL so it travels with saved projects, named after the file
+export const loadFontFile = async (file: File): Promise<{ family: string; src: string }> => {
+  const src = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const family = file.name.replace(/\.[^.]+$/, '').replace(/["\\]/g, '').trim() || 'Custom Font';
+  // Fails here on anything that isn't a font, before it's added to the project
+  await new FontFace(family, `url(${src})`).load();
+  return { family, src };
+};
@@ -0,0 +1,19 @@
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = src;
+  });
+
+// Re-encodes as PNG unless the image already came from a data URL
+export const imageToDataUrl = (img: HTMLImageElement): string => {
+  if (img.src.startsWith('data:')) return img.src;
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  ctx.drawImage(img, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,64 @@
+import { AiEditSource, Insets, Size } from '../types';
+import { createCanvas } from './drawUtils';
+import { getActiveLayer } from './maskUtils';
+import { CompositeSource, drawLayerImage, renderComposite } from './renderComposite';
+
+// The pixels an AI edit starts from, at document resolution
+export const renderEditSource = (source: CompositeSource, editSource: AiEditSource): HTMLCanvasElement | null => {
+  if (editSource === AiEditSource.COMPOSITE) return renderComposite(source);
+
+  const layer = getActiveLayer(source.maskConfig);
+  const img = layer && source.images[layer.id];
+  if (!img) return null;
+  const canvas = createCanvas(source.width, source.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  drawLayerImage(ctx, img, layer, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Equal growth on every side, as a fraction of each dimension
+export const getOutpaintInsets = (size: Size, expand: number): Insets => {
+  const x = Math.round(size.width * expand);
+  const y = Math.round(size.height * expand);
+  return { top: y, right: x, bottom: y, left: x };
+};
+
+// Places the image inside a larger transparent canvas; the mask covers exactly the new border
+export const padForOutpaint = (image: HTMLCanvasElement, insets: Insets) => {
+  const width = image.width + insets.left + insets.right;
+  const height = image.height + insets.top + insets.bottom;
+  const padded = createCanvas(width, height);
+  const mask = createCanvas(width, height);
+  const paddedCtx = padded.getContext('2d');
+  const maskCtx = mask.getContext('2d');
+  if (paddedCtx) paddedCtx.drawImage(image, insets.left, insets.top);
+  if (maskCtx) {
+    maskCtx.fillStyle = '#FFFFFF';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.clearRect(insets.left, insets.top, image.width, image.height);
+  }
+  return { image: padded, mask };
+};
+
+// The generated pixels inside the mask only, transparent elsewhere
+export const clipToMask = (result: HTMLImageElement, mask: HTMLCanvasElement, width: number, height: number) => {
+  const patch = createCanvas(width, height);
+  const patchCtx = patch.getContext('2d');
+  if (!patchCtx) return patch;
+  patchCtx.drawImage(result, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = 'destination-in';
+  patchCtx.drawImage(mask, 0, 0, width, height);
+  return patch;
+};
+
+// Takes the generated pixels only where the mask is set, so the provider can't touch anything outside it
+export const blendThroughMask = (original: HTMLCanvasElement, result: HTMLImageElement, mask: HTMLCanvasElement) => {
+  const { width, height } = original;
+  const output = createCanvas(width, height);
+  const outputCtx = output.getContext('2d');
+  if (!outputCtx) return original;
+  outputCtx.drawImage(original, 0, 0);
+  outputCtx.drawImage(clipToMask(result, mask, width, height), 0, 0);
+  return output;
+};
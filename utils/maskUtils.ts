@@ -0,0 +1,479 @@
+import {
+  BrushStroke, DEFAULT_IMAGE_LAYER, DEFAULT_MASK_ITEM, FeatherMode, ImageLayer, Insets, LayerFit, LayerImages,
+  MaskAssets, MaskCombineMode, MaskConfig, MaskItem, MaskType, PathAnchor, Point, Size
+} from '../types';
+import { createCanvas, drawMaskShape } from './drawUtils';
+import { getRasterImage } from './rasterMask';
+import { getShapeDefinition } from './shapeRegistry';
+import { getSvgFrame } from './svgShape';
+import { getTextBounds, layoutText } from './textLayout';
+
+let idCounter = 0;
+
+export const createId = (): string => {
+  idCounter += 1;
+  return `${Date.now().toString(36)}-${idCounter.toString(36)}`;
+};
+
+export const isBrushType = (type: MaskType) => type === MaskType.BRUSH || type === MaskType.PEN;
+
+export const isStrokeTool = (type: MaskType) => isBrushType(type) || type === MaskType.ERASER;
+
+// Item shape a stroke tool draws into
+export const getStrokeShape = (tool: MaskType): MaskType => (tool === MaskType.ERASER ? MaskType.BRUSH : tool);
+
+export const createMaskItem = (shape: MaskType, overrides: Partial<MaskItem> = {}): MaskItem => ({
+  ...DEFAULT_MASK_ITEM,
+  // Brush, path and raster items start with an identity transform so they line up with the image
+  ...(isBrushType(shape) || shape === MaskType.PATH || shape === MaskType.RASTER ? { scaleX: 1, scaleY: 1 } : {}),
+  ...overrides,
+  id: createId(),
+  shape,
+});
+
+export const createLayer = (overrides: Partial<ImageLayer> = {}): ImageLayer => ({
+  ...DEFAULT_IMAGE_LAYER,
+  ...overrides,
+  id: createId(),
+});
+
+export const getActiveLayer = (config: MaskConfig): ImageLayer | null =>
+  config.layers.find(layer => layer.id === config.activeLayerId) ?? null;
+
+export const updateLayer = (config: MaskConfig, id: string, patch: Partial<ImageLayer>): MaskConfig => ({
+  ...config,
+  layers: config.layers.map(layer => (layer.id === id ? { ...layer, ...patch } : layer)),
+});
+
+// Back to the placement a new layer starts with: centered, covering the document
+export const resetLayerTransform = (config: MaskConfig, id: string): MaskConfig => {
+  const { fit, x, y, scale, rotation, flipX, flipY } = DEFAULT_IMAGE_LAYER;
+  return updateLayer(config, id, { fit, x, y, scale, rotation, flipX, flipY });
+};
+
+// Makes a layer active and selects the top item of its mask
+export const activateLayer = (config: MaskConfig, id: string): MaskConfig => {
+  const layer = config.layers.find(l => l.id === id);
+  if (!layer) return config;
+  return { ...config, activeLayerId: id, selectedId: layer.items[layer.items.length - 1]?.id ?? null };
+};
+
+export const getSelectedItem = (config: MaskConfig): MaskItem | null =>
+  getActiveLayer(config)?.items.find(item => item.id === config.selectedId) ?? null;
+
+export const updateMaskItem = (config: MaskConfig, id: string, patch: Partial<MaskItem>): MaskConfig => ({
+  ...config,
+  layers: config.layers.map(layer => (layer.items.some(item => item.id === id)
+    ? { ...layer, items: layer.items.map(item => (item.id === id ? { ...item, ...patch } : item)) }
+    : layer
+  )),
+});
+
+// Stacks an item on top of the active layer's mask and selects it
+export const addMaskItem = (config: MaskConfig, item: MaskItem): MaskConfig => {
+  const layer = getActiveLayer(config);
+  if (!layer) return config;
+  return { ...updateLayer(config, layer.id, { items: [...layer.items, item] }), selectedId: item.id };
+};
+
+export const getMaskItemLabel = (item: MaskItem): string => {
+  if (item.shape === MaskType.TEXT) return item.text || 'Text';
+  if (item.shape === MaskType.SVG) return item.svg?.name || 'SVG';
+  if (isBrushType(item.shape)) return `${item.shape} (${item.strokes.length})`;
+  if (item.shape === MaskType.PATH) return `${item.closed ? 'Path' : 'Open Path'} (${item.anchors.length})`;
+  return item.shape;
+};
+
+// Pixels per unit of mask length (see BrushStroke) in a document of this size
+export const getLengthUnit = (width: number, height: number) => Math.min(width, height);
+
+// A stroke in document pixels, ready to draw
+export const strokeToPixels = (stroke: BrushStroke, width: number, height: number): BrushStroke => ({
+  ...stroke,
+  size: stroke.size * getLengthUnit(width, height),
+  points: stroke.points.map(p => ({ ...p, x: p.x * width, y: p.y * height })),
+});
+
+// Path anchors in document pixels, ready to trace
+export const anchorsToPixels = (anchors: PathAnchor[], width: number, height: number): PathAnchor[] =>
+  anchors.map(anchor => ({
+    x: anchor.x * width,
+    y: anchor.y * height,
+    handleIn: { x: anchor.handleIn.x * width, y: anchor.handleIn.y * height },
+    handleOut: { x: anchor.handleOut.x * width, y: anchor.handleOut.y * height },
+  }));
+
+// Skew beyond this makes shapes collapse into a line (at skewX + skewY = 90°)
+export const MAX_SKEW = 40;
+
+// 2D affine matrix in canvas order: x' = a*x + c*y + e, y' = b*x + d*y + f
+export interface ItemMatrix {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+// Item space (document pixels, centered) -> canvas pixels: scale, then skew, then rotate, about the document center
+export const getItemMatrix = (item: MaskItem, width: number, height: number): ItemMatrix => {
+  const angle = (item.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const tanX = Math.tan((item.skewX * Math.PI) / 180);
+  const tanY = Math.tan((item.skewY * Math.PI) / 180);
+  const a = (cos - sin * tanY) * item.scaleX;
+  const b = (sin + cos * tanY) * item.scaleX;
+  const c = (cos * tanX - sin) * item.scaleY;
+  const d = (sin * tanX + cos) * item.scaleY;
+  return {
+    a, b, c, d,
+    e: item.x * width - (a * width + c * height) / 2,
+    f: item.y * height - (b * width + d * height) / 2,
+  };
+};
+
+// Overall size factor of the item, for effects that can't stretch, like blur
+export const getItemScale = (item: MaskItem) => Math.sqrt(Math.abs(item.scaleX * item.scaleY));
+
+// Maps the item's normalized position, scale, skew and rotation onto the context
+export const applyItemTransform = (ctx: CanvasRenderingContext2D, item: MaskItem, width: number, height: number) => {
+  const { a, b, c, d, e, f } = getItemMatrix(item, width, height);
+  ctx.transform(a, b, c, d, e, f);
+};
+
+// Inverse of applyItemTransform: canvas pixels -> normalized item space, where strokes are stored
+export const toItemSpace = (item: MaskItem, pos: Point, width: number, height: number): Point => {
+  const { a, b, c, d, e, f } = getItemMatrix(item, width, height);
+  const det = a * d - b * c;
+  if (det === 0) return { x: 0.5, y: 0.5 };
+  const dx = pos.x - e;
+  const dy = pos.y - f;
+  return {
+    x: (d * dx - c * dy) / det / width,
+    y: (a * dy - b * dx) / det / height,
+  };
+};
+
+// Normalized item space -> canvas pixels, e.g. to draw editing handles over the canvas
+export const fromItemSpace = (item: MaskItem, point: Point, width: number, height: number): Point => {
+  const { a, b, c, d, e, f } = getItemMatrix(item, width, height);
+  const x = point.x * width;
+  const y = point.y * height;
+  return { x: a * x + c * y + e, y: b * x + d * y + f };
+};
+
+// Box around what the item draws, in its normalized item space (0-1 spans the document before the item's scale).
+// Square shapes fill a square on the shorter side, text is measured, everything else covers the whole box.
+export const getMaskItemBounds = (item: MaskItem, width: number, height: number) => {
+  const box = (w: number, h: number, dy = 0) => ({
+    left: 0.5 - w / width / 2,
+    top: 0.5 + (dy - h / 2) / height,
+    right: 0.5 + w / width / 2,
+    bottom: 0.5 + (dy + h / 2) / height,
+  });
+  const unit = getLengthUnit(width, height);
+
+  if (getShapeDefinition(item.shape)?.square) return box(unit, unit);
+  switch (item.shape) {
+    case MaskType.SVG: {
+      if (!item.svg) return box(unit, unit);
+      const { scale } = getSvgFrame(item.svg, width, height);
+      return box(item.svg.viewBox.width * scale, item.svg.viewBox.height * scale);
+    }
+    case MaskType.TEXT: {
+      const fontSize = item.fontSize * unit;
+      const bounds = getTextBounds(layoutText(item.text, fontSize, item.textStyle), fontSize, item.textStyle);
+      return box(Math.max(bounds.width, fontSize * 0.5), bounds.height, bounds.offsetY);
+    }
+    default:
+      return box(width, height);
+  }
+};
+
+const mapMaskItems = (config: MaskConfig, map: (item: MaskItem) => MaskItem): MaskConfig => ({
+  ...config,
+  layers: config.layers.map(layer => ({ ...layer, items: layer.items.map(map) })),
+});
+
+// Size of a layer image in document pixels before the layer's own scale
+export const getFitSize = (img: HTMLImageElement, fit: LayerFit, width: number, height: number): Size => {
+  switch (fit) {
+    case LayerFit.STRETCH:
+      return { width, height };
+    case LayerFit.ORIGINAL:
+      return { width: img.width, height: img.height };
+    case LayerFit.CONTAIN: {
+      const scale = Math.min(width / img.width, height / img.height);
+      return { width: img.width * scale, height: img.height * scale };
+    }
+    default: {
+      const scale = Math.max(width / img.width, height / img.height);
+      return { width: img.width * scale, height: img.height * scale };
+    }
+  }
+};
+
+// Splits the change between two document sizes into insets; anchor is where the old content stays (0-1 per axis)
+export const getAnchoredInsets = (size: Size, target: Size, anchor: Point): Insets => {
+  const dw = target.width - size.width;
+  const dh = target.height - size.height;
+  const left = Math.round(dw * anchor.x);
+  const top = Math.round(dh * anchor.y);
+  return { top, right: dw - left, bottom: dh - top, left };
+};
+
+// Re-expresses every mask for a document grown (or cut) by insets so everything stays where it was on the image.
+// Positions and stroke points keep their pixel position; lengths and square shapes follow the shorter side, so they are
+// rescaled, and shapes covering the document box keep their pixel width and height.
+// Given the layer images, layers keep their pixel placement too; stretched layers keep filling the document.
+export const expandMaskConfig = (config: MaskConfig, size: Size, insets: Insets, images: LayerImages = {}): MaskConfig => {
+  const width = size.width + insets.left + insets.right;
+  const height = size.height + insets.top + insets.bottom;
+  const shapeRatio = getLengthUnit(size.width, size.height) / getLengthUnit(width, height);
+  const dx = (width - size.width) / 2;
+  const dy = (height - size.height) / 2;
+  // Stroke points and path anchors live in item space, which is centered on the document
+  const remapPoint = (p: Point): Point => ({ x: (p.x * size.width + dx) / width, y: (p.y * size.height + dy) / height });
+
+  const placed = {
+    ...config,
+    brushSize: config.brushSize * shapeRatio,
+    layers: config.layers.map(layer => {
+      const feather = layer.feather * shapeRatio;
+      const img = images[layer.id];
+      if (!img || layer.fit === LayerFit.STRETCH) return { ...layer, feather };
+      const before = getFitSize(img, layer.fit, size.width, size.height);
+      const after = getFitSize(img, layer.fit, width, height);
+      return {
+        ...layer,
+        feather,
+        x: (layer.x * size.width + insets.left) / width,
+        y: (layer.y * size.height + insets.top) / height,
+        scale: layer.scale * before.width / after.width,
+      };
+    }),
+  };
+
+  return mapMaskItems(placed, item => ({
+    ...item,
+    x: (item.x * size.width + insets.left) / width,
+    y: (item.y * size.height + insets.top) / height,
+    ...(isBrushType(item.shape) || item.shape === MaskType.PATH || item.shape === MaskType.TEXT
+      ? {}
+      // Shapes sized by the shorter side keep their size; the rest cover the document box and keep their pixel extent
+      : getShapeDefinition(item.shape)?.square || item.shape === MaskType.SVG
+        ? { scaleX: item.scaleX * shapeRatio, scaleY: item.scaleY * shapeRatio }
+        : { scaleX: item.scaleX * size.width / width, scaleY: item.scaleY * size.height / height }),
+    feather: item.feather * shapeRatio,
+    fontSize: item.fontSize * shapeRatio,
+    strokes: item.strokes.map(stroke => ({
+      ...stroke,
+      size: stroke.size * shapeRatio,
+      points: stroke.points.map(p => ({ ...p, ...remapPoint(p) })),
+    })),
+    anchors: item.anchors.map(anchor => ({
+      ...remapPoint(anchor),
+      handleIn: remapPoint(anchor.handleIn),
+      handleOut: remapPoint(anchor.handleOut),
+    })),
+  }));
+};
+
+export const drawMaskItem = (
+  ctx: CanvasRenderingContext2D,
+  item: MaskItem,
+  width: number,
+  height: number,
+  assets: MaskAssets,
+  strokes: BrushStroke[] = item.strokes
+) => {
+  ctx.save();
+  applyItemTransform(ctx, item, width, height);
+  drawMaskShape(
+    ctx,
+    item.shape,
+    width,
+    height,
+    item.params,
+    item.text,
+    item.fontSize * getLengthUnit(width, height),
+    item.textStyle,
+    strokes.map(stroke => strokeToPixels(stroke, width, height)),
+    item.closed ? anchorsToPixels(item.anchors, width, height) : [],
+    item.shape === MaskType.RASTER ? getRasterImage(assets[item.imageId]) : null,
+    item.svg
+  );
+  ctx.restore();
+};
+
+const COMBINE_OPERATIONS: Record<MaskCombineMode, GlobalCompositeOperation> = {
+  [MaskCombineMode.ADD]: 'source-over',
+  [MaskCombineMode.SUBTRACT]: 'destination-out',
+  [MaskCombineMode.INTERSECT]: 'destination-in',
+  [MaskCombineMode.EXCLUDE]: 'xor',
+};
+
+// Working canvases reused between renders, one per role and resized to whatever is drawn next. Renders run
+// synchronously, so a canvas is never needed by two of them at once.
+const workCanvases = new Map<'scratch' | 'feather', HTMLCanvasElement>();
+
+const getWorkContext = (role: 'scratch' | 'feather', width: number, height: number) => {
+  let canvas = workCanvases.get(role);
+  if (!canvas) {
+    canvas = createCanvas(width, height);
+    workCanvases.set(role, canvas);
+  } else if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  } else {
+    canvas.getContext('2d')?.clearRect(0, 0, width, height);
+  }
+  return canvas.getContext('2d');
+};
+
+// SVG filters that stretch the lower or upper half of the alpha range back to full range; the browser runs them
+// in the same pass as the blur, without reading the pixels back
+const FEATHER_FILTER_IDS: Partial<Record<FeatherMode, string>> = {
+  [FeatherMode.INNER]: 'mask-feather-inner',
+  [FeatherMode.OUTER]: 'mask-feather-outer',
+};
+
+const ensureFeatherFilters = () => {
+  if (document.getElementById('mask-feather-filters')) return;
+  const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+  svg.id = 'mask-feather-filters';
+  svg.setAttribute('width', '0');
+  svg.setAttribute('height', '0');
+  svg.style.position = 'absolute';
+  svg.innerHTML = `
+    <filter id="${FEATHER_FILTER_IDS[FeatherMode.INNER]}" color-interpolation-filters="sRGB">
+      <feComponentTransfer><feFuncA type="linear" slope="2" intercept="-1" /></feComponentTransfer>
+    </filter>
+    <filter id="${FEATHER_FILTER_IDS[FeatherMode.OUTER]}" color-interpolation-filters="sRGB">
+      <feComponentTransfer><feFuncA type="linear" slope="2" intercept="0" /></feComponentTransfer>
+    </filter>`;
+  document.body.appendChild(svg);
+};
+
+// Blurs the alpha of ctx's canvas in place. The blur alone straddles the hard edge (CENTER);
+// stretching its lower or upper half back to full range pushes the falloff inside or outside.
+export const featherCanvas = (ctx: CanvasRenderingContext2D, radius: number, mode: FeatherMode) => {
+  if (radius <= 0) return;
+  const { width, height } = ctx.canvas;
+  const sourceCtx = getWorkContext('feather', width, height);
+  if (!sourceCtx) return;
+  sourceCtx.drawImage(ctx.canvas, 0, 0);
+
+  const filterId = FEATHER_FILTER_IDS[mode];
+  if (filterId) ensureFeatherFilters();
+  ctx.save();
+  ctx.clearRect(0, 0, width, height);
+  ctx.filter = filterId ? `blur(${radius / 2}px) url(#${filterId})` : `blur(${radius / 2}px)`;
+  ctx.drawImage(sourceCtx.canvas, 0, 0);
+  ctx.restore();
+};
+
+interface CombineOptions {
+  scale?: number; // Output pixels per document pixel
+  opacity?: number;
+  blur?: number; // Document px
+  feather?: number; // Document px
+  featherMode?: FeatherMode;
+}
+
+// Draws one step into a scratch canvas first, so intersect can clear everything the step doesn't cover
+const combineStep = (
+  maskCtx: CanvasRenderingContext2D,
+  scratchCtx: CanvasRenderingContext2D,
+  mode: MaskCombineMode,
+  draw: (ctx: CanvasRenderingContext2D) => void,
+  { scale = 1, opacity = 1, blur = 0, feather = 0, featherMode = FeatherMode.CENTER }: CombineOptions = {}
+) => {
+  const { width, height } = scratchCtx.canvas;
+  scratchCtx.clearRect(0, 0, width, height);
+  scratchCtx.save();
+  scratchCtx.scale(scale, scale);
+  draw(scratchCtx);
+  scratchCtx.restore();
+  featherCanvas(scratchCtx, feather * scale, featherMode);
+
+  maskCtx.save();
+  maskCtx.globalCompositeOperation = COMBINE_OPERATIONS[mode];
+  maskCtx.globalAlpha = opacity;
+  if (blur > 0) maskCtx.filter = `blur(${blur * scale}px)`;
+  maskCtx.drawImage(scratchCtx.canvas, 0, 0);
+  maskCtx.restore();
+};
+
+// Soft brushes blur their edge by up to a quarter of the stroke width
+const getStrokeBlur = (item: MaskItem, stroke: BrushStroke, unit: number) =>
+  (1 - stroke.hardness) * (stroke.size * unit / 4) * getItemScale(item);
+
+// Consecutive opaque strokes that add or subtract with the same edge are drawn in one pass: combining their union
+// once matches combining them one by one. Translucent strokes build up where they overlap, and intersecting or
+// excluding strokes depend on each other, so those still go one at a time.
+const isBatchable = (stroke: BrushStroke) =>
+  stroke.opacity === 1 && (stroke.mode === MaskCombineMode.ADD || stroke.mode === MaskCombineMode.SUBTRACT);
+
+const getStrokeRuns = (item: MaskItem, unit: number): BrushStroke[][] => {
+  const runs: BrushStroke[][] = [];
+  item.strokes.forEach(stroke => {
+    const run = runs[runs.length - 1];
+    const last = run?.[run.length - 1];
+    if (last && isBatchable(last) && isBatchable(stroke) && last.mode === stroke.mode &&
+      getStrokeBlur(item, last, unit) === getStrokeBlur(item, stroke, unit)) {
+      run.push(stroke);
+    } else {
+      runs.push([stroke]);
+    }
+  });
+  return runs;
+};
+
+// Composites every visible item of a layer's mask stack into a single white-on-transparent mask.
+// Shapes combine as a whole; brush items combine run by run so a subtracting stroke cuts through anything below it.
+// Item feather applies to each run, so an item painted in one mode is feathered once.
+// width/height describe the document the mask lives in; scale renders it at a different output resolution.
+export const renderMaskCanvas = (
+  layer: ImageLayer,
+  width: number,
+  height: number,
+  assets: MaskAssets,
+  scale = 1
+): HTMLCanvasElement | null => {
+  const outputWidth = Math.round(width * scale);
+  const outputHeight = Math.round(height * scale);
+  const maskCanvas = createCanvas(outputWidth, outputHeight);
+  const maskCtx = maskCanvas.getContext('2d');
+  const scratchCtx = getWorkContext('scratch', outputWidth, outputHeight);
+  if (!maskCtx || !scratchCtx) return null;
+  const featherMode = layer.featherMode;
+  const unit = getLengthUnit(width, height);
+
+  layer.items.forEach(item => {
+    if (!item.visible) return;
+    if (isBrushType(item.shape)) {
+      getStrokeRuns(item, unit).forEach(run => {
+        const [first] = run;
+        combineStep(maskCtx, scratchCtx, first.mode, ctx => drawMaskItem(ctx, item, width, height, assets, run), {
+          scale,
+          opacity: first.opacity,
+          blur: getStrokeBlur(item, first, unit),
+          feather: item.feather * unit,
+          featherMode,
+        });
+      });
+    } else {
+      combineStep(maskCtx, scratchCtx, item.mode, ctx => drawMaskItem(ctx, item, width, height, assets), {
+        scale,
+        feather: item.feather * unit,
+        featherMode,
+      });
+    }
+  });
+
+  featherCanvas(maskCtx, layer.feather * unit * scale, featherMode);
+  return maskCanvas;
+};
@@ -0,0 +1,89 @@
+import { MaskItem, PathAnchor, Point } from '../types';
+import { fromItemSpace } from './maskUtils';
+
+export type PathPart = 'anchor' | 'handleIn' | 'handleOut';
+
+export interface PathHit {
+  index: number;
+  part: PathPart;
+}
+
+// New anchors are corners until their handles are dragged out
+export const createPathAnchor = (point: Point): PathAnchor => ({
+  x: point.x,
+  y: point.y,
+  handleIn: { ...point },
+  handleOut: { ...point },
+});
+
+const isCollapsed = (anchor: PathAnchor, handle: Point) => handle.x === anchor.x && handle.y === anchor.y;
+
+// Points the opposite handle away from the dragged one, keeping its own length. A collapsed handle stays a corner.
+const mirrorHandle = (anchor: PathAnchor, dragged: Point, opposite: Point): Point => {
+  const length = Math.hypot(opposite.x - anchor.x, opposite.y - anchor.y);
+  const dx = dragged.x - anchor.x;
+  const dy = dragged.y - anchor.y;
+  const draggedLength = Math.hypot(dx, dy);
+  if (length === 0 || draggedLength === 0) return opposite;
+  return { x: anchor.x - (dx / draggedLength) * length, y: anchor.y - (dy / draggedLength) * length };
+};
+
+// Moves part of an anchor to point (item space). Handles stay symmetric unless breakHandles is set (Alt).
+export const dragPathAnchor = (anchor: PathAnchor, part: PathPart | 'new', point: Point, breakHandles = false): PathAnchor => {
+  switch (part) {
+    case 'anchor': {
+      const dx = point.x - anchor.x;
+      const dy = point.y - anchor.y;
+      return {
+        x: point.x,
+        y: point.y,
+        handleIn: { x: anchor.handleIn.x + dx, y: anchor.handleIn.y + dy },
+        handleOut: { x: anchor.handleOut.x + dx, y: anchor.handleOut.y + dy },
+      };
+    }
+    case 'new':
+      // Pulling out a fresh anchor makes a smooth node, the in handle an exact mirror of the out handle
+      return { ...anchor, handleOut: point, handleIn: { x: anchor.x * 2 - point.x, y: anchor.y * 2 - point.y } };
+    case 'handleIn':
+      return {
+        ...anchor,
+        handleIn: point,
+        handleOut: breakHandles ? anchor.handleOut : mirrorHandle(anchor, point, anchor.handleOut),
+      };
+    case 'handleOut':
+      return {
+        ...anchor,
+        handleOut: point,
+        handleIn: breakHandles ? anchor.handleIn : mirrorHandle(anchor, point, anchor.handleIn),
+      };
+  }
+};
+
+// Collapses both handles, turning a smooth node into a sharp corner
+export const makeCornerAnchor = (anchor: PathAnchor): PathAnchor => createPathAnchor(anchor);
+
+// The item's anchors in canvas pixels, placed by its transform, for drawing the editing overlay
+export const getPathOnCanvas = (item: MaskItem, width: number, height: number): PathAnchor[] =>
+  item.anchors.map(anchor => ({
+    ...fromItemSpace(item, anchor, width, height),
+    handleIn: fromItemSpace(item, anchor.handleIn, width, height),
+    handleOut: fromItemSpace(item, anchor.handleOut, width, height),
+  }));
+
+// Topmost anchor or handle within radius (canvas pixels) of pos. Handles win over anchors so they can be pulled
+// off an anchor they sit close to; collapsed handles can't be grabbed.
+export const hitTestPath = (item: MaskItem, pos: Point, radius: number, width: number, height: number): PathHit | null => {
+  const anchors = getPathOnCanvas(item, width, height);
+  const isNear = (p: Point) => Math.hypot(p.x - pos.x, p.y - pos.y) <= radius;
+
+  for (let index = anchors.length - 1; index >= 0; index--) {
+    const anchor = anchors[index];
+    const stored = item.anchors[index];
+    if (!isCollapsed(stored, stored.handleOut) && isNear(anchor.handleOut)) return { index, part: 'handleOut' };
+    if (!isCollapsed(stored, stored.handleIn) && isNear(anchor.handleIn)) return { index, part: 'handleIn' };
+  }
+  for (let index = anchors.length - 1; index >= 0; index--) {
+    if (isNear(anchors[index])) return { index, part: 'anchor' };
+  }
+  return null;
+};
@@ -0,0 +1,285 @@
+import {
+  DEFAULT_IMAGE_LAYER, DEFAULT_MASK_CONFIG, DEFAULT_MASK_ITEM, DEFAULT_TEXT_STYLE, ImageLayer, LayerImages, MaskAssets, MaskConfig, Size,
+  Transform
+} from '../types';
+import { imageToDataUrl, loadImage } from './imageUtils';
+import { createId } from './maskUtils';
+
+export const PROJECT_EXTENSION = 'mask';
+export const PROJECT_FORMAT = 'mask-master-project';
+export const PROJECT_VERSION = 5;
+
+export interface ProjectData {
+  images: LayerImages;
+  assets: MaskAssets;
+  maskConfig: MaskConfig;
+  canvasSize: Size;
+  transform: Transform;
+}
+
+// On-disk shape: JSON with the layer images embedded as data URLs, keyed by layer id
+interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  canvasSize: Size;
+  transform: Transform;
+  maskConfig: MaskConfig;
+  images: Record<string, string>;
+  assets: MaskAssets;
+}
+
+// Project files and autosaved sessions are untrusted input. Their contents are checked as they are read, so a
+// malformed file fails with a message saying what is wrong rather than somewhere inside a migration.
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const damaged = (what: string) => new Error(`Project file is damaged: ${what}`);
+
+const expectRecord = (value: unknown, what: string): RawRecord => {
+  if (!isRecord(value)) throw damaged(`${what} is not an object`);
+  return value;
+};
+
+const expectNumber = (value: unknown, what: string): number => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw damaged(`${what} is not a number`);
+  return value;
+};
+
+// Maps a list whose entries must all be objects
+const mapRecords = <T>(value: unknown, what: string, map: (record: RawRecord) => T): T[] => {
+  if (!Array.isArray(value)) throw damaged(`${what} is not a list`);
+  return value.map(entry => map(expectRecord(entry, `an entry of ${what}`)));
+};
+
+const expectSize = (value: unknown): Size => {
+  const size = expectRecord(value, 'the document size');
+  const width = expectNumber(size.width, 'the document width');
+  const height = expectNumber(size.height, 'the document height');
+  if (width <= 0 || height <= 0) throw damaged('the document size is empty');
+  return { width, height };
+};
+
+// Layer images and assets: data URLs keyed by id
+const expectDataUrls = (value: unknown, what: string): Record<string, string> =>
+  Object.fromEntries(Object.entries(expectRecord(value ?? {}, what)).map(([id, src]) => {
+    if (typeof src !== 'string') throw damaged(`an entry of ${what} is not a data URL`);
+    return [id, src];
+  }));
+
+// Before layers there was a fixed background and a masked foreground; the mask and its opacity belonged to the foreground
+const upgradeTwoImageConfig = (raw: RawRecord): RawRecord => {
+  const { items, feather, featherMode, opacity, ...rest } = raw;
+  return {
+    ...rest,
+    layers: [
+      { ...DEFAULT_IMAGE_LAYER, id: 'background', name: 'Background' },
+      {
+        ...DEFAULT_IMAGE_LAYER,
+        id: 'foreground',
+        name: 'Foreground',
+        items: items ?? [],
+        feather: feather ?? DEFAULT_IMAGE_LAYER.feather,
+        featherMode: featherMode ?? DEFAULT_IMAGE_LAYER.featherMode,
+        opacity: opacity ?? DEFAULT_IMAGE_LAYER.opacity,
+      },
+    ],
+    activeLayerId: 'foreground',
+  };
+};
+
+// Up to version 2 mask lengths and stroke points were document pixels; they are now fractions of the document.
+// Works on configs from before and after layers, so autosaved sessions can use it as well.
+export const toDocumentSpace = (raw: unknown, size: Size): RawRecord => {
+  const config = expectRecord(raw, 'the mask settings');
+  const unit = Math.min(size.width, size.height);
+  // Missing fields stay missing so normalizing fills them with (already normalized) defaults
+  const lengths = (source: RawRecord, ...keys: string[]) => Object.fromEntries(
+    keys.filter(key => typeof source[key] === 'number').map(key => [key, (source[key] as number) / unit])
+  );
+  const convertItem = (item: RawRecord) => ({
+    ...item,
+    ...lengths(item, 'feather', 'fontSize'),
+    ...(item.strokes !== undefined ? {
+      strokes: mapRecords(item.strokes, 'brush strokes', stroke => ({
+        ...stroke,
+        ...lengths(stroke, 'size'),
+        points: mapRecords(stroke.points, 'stroke points', p => ({
+          ...p,
+          x: expectNumber(p.x, 'a stroke point') / size.width,
+          y: expectNumber(p.y, 'a stroke point') / size.height,
+        })),
+      })),
+    } : {}),
+  });
+
+  return {
+    ...config,
+    ...lengths(config, 'brushSize'),
+    ...(config.layers !== undefined ? {
+      layers: mapRecords(config.layers, 'layers', layer => ({
+        ...layer,
+        ...lengths(layer, 'feather'),
+        ...(layer.items !== undefined ? { items: mapRecords(layer.items, 'mask items', convertItem) } : {}),
+      })),
+    } : {}),
+    // Configs from before layers keep items and feather at the top level
+    ...(config.items !== undefined
+      ? { items: mapRecords(config.items, 'mask items', convertItem), ...lengths(config, 'feather') }
+      : {}),
+  };
+};
+
+// Up to version 3 items had a single uniform `scale` and no skew
+const splitItemScale = (item: RawRecord): RawRecord => {
+  if (typeof item.scale !== 'number') return item;
+  const { scale, ...rest } = item;
+  return { ...rest, scaleX: scale, scaleY: scale, skewX: 0, skewY: 0 };
+};
+
+// Applies map to every item of every layer, leaving configs without layers as they are
+const mapConfigItems = (raw: unknown, map: (item: RawRecord) => RawRecord): RawRecord => {
+  const config = expectRecord(raw, 'the mask settings');
+  if (config.layers === undefined) return config;
+  return {
+    ...config,
+    layers: mapRecords(config.layers, 'layers', layer => ({
+      ...layer,
+      ...(layer.items !== undefined ? { items: mapRecords(layer.items, 'mask items', map) } : {}),
+    })),
+  };
+};
+
+// Up to version 4 raster items kept their bitmap inline as `image` and fonts their file as `src`; both now live
+// in the assets table. Sessions carry no version, so they run through this too. Identical data shares one entry.
+export const extractInlineAssets = (raw: unknown, assets: MaskAssets): RawRecord => {
+  const toAssetId = (src: string) => {
+    let id = Object.keys(assets).find(key => assets[key] === src);
+    if (!id) {
+      id = createId();
+      assets[id] = src;
+    }
+    return id;
+  };
+
+  const config = mapConfigItems(raw, item => {
+    if (typeof item.image !== 'string') return item;
+    const { image, ...rest } = item;
+    return { ...rest, imageId: image ? toAssetId(image) : '' };
+  });
+  if (config.fonts === undefined) return config;
+  return {
+    ...config,
+    fonts: mapRecords(config.fonts, 'fonts', font => {
+      if (typeof font.src !== 'string') return font;
+      const { src, ...rest } = font;
+      return { ...rest, assetId: toAssetId(src) };
+    }),
+  };
+};
+
+// Upgrades a file from version N to N + 1, keyed by N. Add an entry whenever the saved shape changes.
+const MIGRATIONS: Record<number, (file: RawRecord) => RawRecord> = {
+  1: file => {
+    const images = isRecord(file.images) ? file.images : {};
+    return {
+      ...file,
+      maskConfig: upgradeTwoImageConfig(expectRecord(file.maskConfig ?? {}, 'the mask settings')),
+      images: {
+        ...(images.background ? { background: images.background } : {}),
+        ...(images.foreground ? { foreground: images.foreground } : {}),
+      },
+    };
+  },
+  2: file => ({ ...file, maskConfig: toDocumentSpace(file.maskConfig ?? {}, expectSize(file.canvasSize)) }),
+  3: file => ({ ...file, maskConfig: mapConfigItems(file.maskConfig ?? {}, splitItemScale) }),
+  4: file => {
+    const assets: MaskAssets = {};
+    return { ...file, maskConfig: extractInlineAssets(file.maskConfig ?? {}, assets), assets };
+  },
+};
+
+const normalizeLayer = (layer: RawRecord): ImageLayer => ({
+  ...DEFAULT_IMAGE_LAYER,
+  ...layer,
+  items: layer.items === undefined ? [] : mapRecords(layer.items, 'mask items', item => ({
+    ...DEFAULT_MASK_ITEM,
+    // Autosaved sessions carry no version, so old uniform scales are split here too
+    ...splitItemScale(item),
+    textStyle: { ...DEFAULT_TEXT_STYLE, ...(isRecord(item.textStyle) ? item.textStyle : {}) },
+  })),
+});
+
+// Fills fields added since the file was written with their defaults.
+// Also accepts configs from before layers, which autosaved sessions may still hold.
+export const normalizeMaskConfig = (raw: unknown): MaskConfig => {
+  const record = expectRecord(raw ?? {}, 'the mask settings');
+  const config = !Array.isArray(record.layers) && Array.isArray(record.items) ? upgradeTwoImageConfig(record) : record;
+  return {
+    ...DEFAULT_MASK_CONFIG,
+    ...config,
+    layers: config.layers === undefined ? DEFAULT_MASK_CONFIG.layers : mapRecords(config.layers, 'layers', normalizeLayer),
+  };
+};
+
+export const serializeProject = (data: ProjectData): string => {
+  const file: ProjectFile = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    canvasSize: data.canvasSize,
+    transform: data.transform,
+    maskConfig: data.maskConfig,
+    // Only layers still in the stack; images kept around for undo stay out of the file
+    images: Object.fromEntries(data.maskConfig.layers
+      .filter(layer => data.images[layer.id])
+      .map(layer => [layer.id, imageToDataUrl(data.images[layer.id])])),
+    // Likewise only assets the mask still uses
+    assets: Object.fromEntries([
+      ...data.maskConfig.layers.flatMap(layer => layer.items).map(item => item.imageId),
+      ...data.maskConfig.fonts.map(font => font.assetId),
+    ].filter(id => data.assets[id]).map(id => [id, data.assets[id]])),
+  };
+  return JSON.stringify(file);
+};
+
+export const parseProject = async (text: string): Promise<ProjectData> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Project file is not valid JSON');
+  }
+  if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT || typeof parsed.version !== 'number') {
+    throw new Error('Not a MaskMaster project file');
+  }
+  const { version } = parsed;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (v${version})`);
+  }
+
+  let file = parsed;
+  for (let step = version; step < PROJECT_VERSION; step++) {
+    const migrate = MIGRATIONS[step];
+    if (!migrate) throw new Error(`Unknown project version (v${version})`);
+    file = migrate(file);
+  }
+
+  const images: LayerImages = Object.fromEntries(await Promise.all(
+    Object.entries(expectDataUrls(file.images, 'the layer images'))
+      .map(async ([id, src]) => [id, await loadImage(src)] as const)
+  ));
+  const transform = isRecord(file.transform) ? file.transform : {};
+
+  return {
+    images,
+    assets: expectDataUrls(file.assets, 'the mask assets'),
+    maskConfig: normalizeMaskConfig(file.maskConfig),
+    canvasSize: expectSize(file.canvasSize),
+    transform: {
+      x: typeof transform.x === 'number' ? transform.x : 0,
+      y: typeof transform.y === 'number' ? transform.y : 0,
+      scale: typeof transform.scale === 'number' ? transform.scale : 1,
+    },
+  };
+};
@@ -0,0 +1,95 @@
+import { MaskAssets, MaskConfig, MaskType } from '../types';
+import { createCanvas } from './drawUtils';
+import { loadImage } from './imageUtils';
+
+// Decoded raster masks keyed by data URL. Rendering is synchronous, so an image that is
+// still decoding is skipped and listeners are told to render again once it lands.
+const cache = new Map<string, HTMLImageElement>();
+const listeners = new Set<() => void>();
+
+const isReady = (img: HTMLImageElement) => img.complete && img.naturalWidth > 0;
+
+export const getRasterImage = (src: string): HTMLImageElement | null => {
+  if (!src) return null;
+  let img = cache.get(src);
+  if (!img) {
+    img = new Image();
+    img.onload = () => listeners.forEach(listener => listener());
+    img.src = src;
+    cache.set(src, img);
+  }
+  return isReady(img) ? img : null;
+};
+
+export const onRasterImageLoad = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Off-screen renders (export, AI edits) wait for every raster item first
+export const preloadRasterImages = async (config: MaskConfig, assets: MaskAssets) => {
+  const sources = config.layers
+    .flatMap(layer => layer.items)
+    .filter(item => item.shape === MaskType.RASTER)
+    .map(item => assets[item.imageId])
+    .filter(src => src && !cache.has(src));
+  await Promise.all(sources.map(async src => {
+    cache.set(src, await loadImage(src));
+  }));
+};
+
+// Which channel of the source decides coverage: brightness of a matte, or transparency of a cutout
+export type RasterChannel = 'luminance' | 'alpha';
+
+// How the source is laid onto the document: stretched edge to edge, or letterboxed at its own aspect
+export type RasterFit = 'stretch' | 'contain';
+
+// Images with any transparency are treated as cutouts, fully opaque ones as grayscale mattes
+export const detectRasterChannel = (img: HTMLImageElement): RasterChannel => {
+  const canvas = createCanvas(img.width, img.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return 'luminance';
+  ctx.drawImage(img, 0, 0);
+  const { data } = ctx.getImageData(0, 0, img.width, img.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return 'alpha';
+  }
+  return 'luminance';
+};
+
+// Converts a matte or cutout into the white-on-transparent form mask items use, sized to the document
+export const imageToRasterMask = (
+  img: HTMLImageElement,
+  width: number,
+  height: number,
+  channel: RasterChannel,
+  fit: RasterFit = 'stretch'
+): string => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+  if (fit === 'contain') {
+    const scale = Math.min(width / img.width, height / img.height);
+    const w = img.width * scale;
+    const h = img.height * scale;
+    ctx.drawImage(img, (width - w) / 2, (height - h) / 2, w, h);
+  } else {
+    ctx.drawImage(img, 0, 0, width, height);
+  }
+
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const coverage = channel === 'alpha'
+      ? data[i + 3]
+      : Math.round((0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) * (data[i + 3] / 255));
+    data[i] = 255;
+    data[i + 1] = 255;
+    data[i + 2] = 255;
+    data[i + 3] = coverage;
+  }
+  ctx.putImageData(imageData, 0, 0);
+  return canvas.toDataURL('image/png');
+};
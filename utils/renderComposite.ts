@@ -0,0 +1,129 @@
+import { ImageLayer, LayerImages, MaskAssets, MaskConfig } from '../types';
+import { createCanvas } from './drawUtils';
+import { getActiveLayer, getFitSize, renderMaskCanvas } from './maskUtils';
+
+export interface CompositeSource {
+  images: LayerImages;
+  assets: MaskAssets;
+  maskConfig: MaskConfig;
+  width: number; // Document size the mask is described in
+  height: number;
+}
+
+export interface CompositeOptions {
+  scale?: number; // Output pixels per document pixel
+  checkerboard?: boolean; // Paint a transparency grid where there is no background
+}
+
+// Draws a layer's image with its fit and transform; width/height describe the document
+export const drawLayerImage = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  layer: ImageLayer,
+  width: number,
+  height: number
+) => {
+  const size = getFitSize(img, layer.fit, width, height);
+  ctx.save();
+  ctx.translate(layer.x * width, layer.y * height);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  ctx.scale(layer.scale * (layer.flipX ? -1 : 1), layer.scale * (layer.flipY ? -1 : 1));
+  ctx.drawImage(img, -size.width / 2, -size.height / 2, size.width, size.height);
+  ctx.restore();
+};
+
+const drawCheckerboard = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const cellSize = 20;
+  ctx.fillStyle = '#1e293b'; // Slate 800
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#334155'; // Slate 700
+  for (let r = 0; r < height; r += cellSize) {
+    for (let c = 0; c < width; c += cellSize) {
+      if ((r / cellSize + c / cellSize) % 2 === 0) ctx.fillRect(c, r, cellSize, cellSize);
+    }
+  }
+};
+
+// One layer with its mask applied, on a transparent canvas at output resolution
+export const renderMaskedLayer = (source: CompositeSource, layer: ImageLayer, scale = 1): HTMLCanvasElement | null => {
+  const image = source.images[layer.id];
+  if (!image) return null;
+
+  const layerCanvas = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  const layerCtx = layerCanvas.getContext('2d');
+  if (!layerCtx) return null;
+  layerCtx.save();
+  layerCtx.scale(scale, scale);
+  drawLayerImage(layerCtx, image, layer, source.width, source.height);
+  layerCtx.restore();
+
+  // A layer without mask items shows in full
+  if (layer.items.length === 0) return layerCanvas;
+  const maskCanvas = renderMaskCanvas(layer, source.width, source.height, source.assets, scale);
+  if (!maskCanvas) return null;
+  layerCtx.globalCompositeOperation = 'destination-in';
+  layerCtx.drawImage(maskCanvas, 0, 0);
+  return layerCanvas;
+};
+
+// The active layer cut out by its mask, e.g. for the cutout export
+export const renderMaskedForeground = (source: CompositeSource, scale = 1): HTMLCanvasElement | null => {
+  const layer = getActiveLayer(source.maskConfig);
+  return layer && renderMaskedLayer(source, layer, scale);
+};
+
+// Flattens a white-on-transparent mask onto black
+export const maskToMatte = (maskCanvas: HTMLCanvasElement): HTMLCanvasElement => {
+  const matte = createCanvas(maskCanvas.width, maskCanvas.height);
+  const ctx = matte.getContext('2d');
+  if (!ctx) return matte;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, matte.width, matte.height);
+  ctx.drawImage(maskCanvas, 0, 0);
+  return matte;
+};
+
+// The active layer's mask as an opaque black-and-white matte (white = visible)
+export const renderMaskMatte = (source: CompositeSource, scale = 1): HTMLCanvasElement | null => {
+  const layer = getActiveLayer(source.maskConfig);
+  if (!layer) return null;
+  const maskCanvas = renderMaskCanvas(layer, source.width, source.height, source.assets, scale);
+  return maskCanvas && maskToMatte(maskCanvas);
+};
+
+// Small JPEG preview, e.g. for the recent sessions list
+export const renderThumbnail = (source: CompositeSource, maxEdge = 160): string => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  return renderComposite(source, { scale, checkerboard: true }).toDataURL('image/jpeg', 0.7);
+};
+
+// Pure render of the whole composition; shared by the on-screen canvas and the exporter
+export const renderComposite = (source: CompositeSource, { scale = 1, checkerboard = false }: CompositeOptions = {}) => {
+  const outputWidth = Math.round(source.width * scale);
+  const outputHeight = Math.round(source.height * scale);
+  const canvas = createCanvas(outputWidth, outputHeight);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return canvas;
+
+  // Layers bottom to top, each through its own mask and blended with what is already there.
+  // They stack on their own canvas so blend modes never see the checkerboard and export matches the screen.
+  const stack = checkerboard ? createCanvas(outputWidth, outputHeight) : canvas;
+  const stackCtx = stack.getContext('2d');
+  if (!stackCtx) return canvas;
+  source.maskConfig.layers.forEach(layer => {
+    if (!layer.visible) return;
+    const layerCanvas = renderMaskedLayer(source, layer, scale);
+    if (!layerCanvas) return;
+    stackCtx.save();
+    stackCtx.globalAlpha = layer.opacity;
+    stackCtx.globalCompositeOperation = layer.blendMode;
+    stackCtx.drawImage(layerCanvas, 0, 0);
+    stackCtx.restore();
+  });
+
+  if (checkerboard) {
+    drawCheckerboard(ctx, outputWidth, outputHeight);
+    ctx.drawImage(stack, 0, 0);
+  }
+  return canvas;
+};
@@ -0,0 +1,230 @@
+import { MaskType, ShapeParams } from '../types';
+import type { PathSink } from './drawUtils';
+
+// A numeric setting a shape exposes; PropertiesPanel builds a slider for each
+export interface ShapeParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+  display: 'count' | 'percent' | 'degrees';
+}
+
+export interface ShapeDefinition {
+  type: MaskType;
+  params: ShapeParam[];
+  square: boolean; // Drawn inside a square on the document's shorter side rather than the whole box
+  // Traces the outline in document pixels, within the item's width × height box
+  trace: (path: PathSink, width: number, height: number, params: ShapeParams) => void;
+}
+
+const registry = new Map<MaskType, ShapeDefinition>();
+
+// Makes a filled shape drawable (on canvas, as a selection outline and in SVG exports) and editable
+export const registerShape = (definition: ShapeDefinition) => {
+  registry.set(definition.type, definition);
+};
+
+export const getShapeDefinition = (type: MaskType): ShapeDefinition | null => registry.get(type) ?? null;
+
+// The item's values for every declared parameter, falling back to the declared defaults
+export const resolveShapeParams = (definition: ShapeDefinition, params: ShapeParams = {}): ShapeParams =>
+  Object.fromEntries(definition.params.map(param => [
+    param.key,
+    typeof params[param.key] === 'number' ? params[param.key] : param.default,
+  ]));
+
+// Traces the outline of a registered shape. Returns false for types that aren't plain paths (text, brushes).
+export const traceMaskShape = (path: PathSink, type: MaskType, width: number, height: number, params?: ShapeParams): boolean => {
+  const definition = getShapeDefinition(type);
+  if (!definition) return false;
+  definition.trace(path, width, height, resolveShapeParams(definition, params));
+  return true;
+};
+
+// Regular polygon or star outline around a center, starting at the top. Radii alternate when there are two.
+const traceRadial = (path: PathSink, cx: number, cy: number, corners: number, radii: number[]) => {
+  const count = corners * radii.length;
+  for (let i = 0; i < count; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI * 2) / count;
+    const radius = radii[i % radii.length];
+    const x = cx + Math.cos(angle) * radius;
+    const y = cy + Math.sin(angle) * radius;
+    if (i === 0) path.moveTo(x, y);
+    else path.lineTo(x, y);
+  }
+  path.closePath();
+};
+
+const traceHeart = (path: PathSink, x: number, y: number, width: number, height: number) => {
+  const topCurveHeight = height * 0.3;
+  path.moveTo(x, y + topCurveHeight);
+  // top left curve
+  path.bezierCurveTo(
+    x, y,
+    x - width / 2, y,
+    x - width / 2, y + topCurveHeight
+  );
+  // bottom left curve
+  path.bezierCurveTo(
+    x - width / 2, y + (height + topCurveHeight) / 2,
+    x, y + (height + topCurveHeight) / 2,
+    x, y + height
+  );
+  // bottom right curve
+  path.bezierCurveTo(
+    x, y + (height + topCurveHeight) / 2,
+    x + width / 2, y + (height + topCurveHeight) / 2,
+    x + width / 2, y + topCurveHeight
+  );
+  // top right curve
+  path.bezierCurveTo(
+    x + width / 2, y,
+    x, y,
+    x, y + topCurveHeight
+  );
+  path.closePath();
+};
+
+const traceRoundedRect = (path: PathSink, width: number, height: number, radius: number) => {
+  if (radius <= 0) {
+    path.rect(0, 0, width, height);
+    return;
+  }
+  path.moveTo(radius, 0);
+  path.lineTo(width - radius, 0);
+  path.arc(width - radius, radius, radius, -Math.PI / 2, 0);
+  path.lineTo(width, height - radius);
+  path.arc(width - radius, height - radius, radius, 0, Math.PI / 2);
+  path.lineTo(radius, height);
+  path.arc(radius, height - radius, radius, Math.PI / 2, Math.PI);
+  path.lineTo(0, radius);
+  path.arc(radius, radius, radius, Math.PI, Math.PI * 1.5);
+  path.closePath();
+};
+
+// The part of the box on one side of a line through its center. The angle is measured in the unit square,
+// so 135° always runs corner to corner whatever the document's aspect.
+const traceSplit = (path: PathSink, width: number, height: number, degrees: number) => {
+  const angle = (degrees * Math.PI) / 180;
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+  const side = (p: { x: number; y: number }) => dx * (p.y - 0.5) - dy * (p.x - 0.5);
+  const corners = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+  // Clip the unit square against the half-plane, keeping the corners on the positive side
+  const kept: { x: number; y: number }[] = [];
+  corners.forEach((p, i) => {
+    const next = corners[(i + 1) % corners.length];
+    const a = side(p);
+    const b = side(next);
+    if (a >= 0) kept.push(p);
+    if ((a >= 0) !== (b >= 0)) {
+      const t = a / (a - b);
+      kept.push({ x: p.x + (next.x - p.x) * t, y: p.y + (next.y - p.y) * t });
+    }
+  });
+  if (kept.length < 3) return;
+
+  kept.forEach((p, i) => (i === 0 ? path.moveTo(p.x * width, p.y * height) : path.lineTo(p.x * width, p.y * height)));
+  path.closePath();
+};
+
+const traceFilmstrip = (path: PathSink, width: number, height: number, frames: number) => {
+    const frameWidth = width * 0.8;
+    const gap = height * 0.05;
+    // The frames and gaps fill 85% of the height
+    const frameHeight = (height * 0.85 - gap * (frames - 1)) / frames;
+    const startY = height * 0.075;
+
+    for (let i = 0; i < frames; i++) {
+        path.rect((width - frameWidth) / 2, startY + (frameHeight + gap) * i, frameWidth, frameHeight);
+    }
+
+    // Add sprocket holes, sized from the document so they look the same at any resolution
+    const holeSize = Math.min(width, height) / 60;
+    const holesPerSide = 8;
+    const holeGap = height / holesPerSide;
+
+    for(let i=0; i<holesPerSide; i++) {
+        path.rect(holeSize, i * holeGap + holeSize, holeSize, holeSize);
+        path.rect(width - holeSize * 2, i * holeGap + holeSize, holeSize, holeSize);
+    }
+};
+
+registerShape({
+  type: MaskType.CIRCLE,
+  params: [],
+  square: true,
+  trace: (path, width, height) => path.arc(width / 2, height / 2, Math.min(width, height) / 2, 0, Math.PI * 2),
+});
+
+registerShape({
+  type: MaskType.RING,
+  params: [{ key: 'thickness', label: 'Thickness', min: 0.05, max: 0.95, step: 0.01, default: 0.3, display: 'percent' }],
+  square: true,
+  trace: (path, width, height, { thickness }) => {
+    const radius = Math.min(width, height) / 2;
+    const inner = radius * (1 - thickness);
+    path.arc(width / 2, height / 2, radius, 0, Math.PI * 2);
+    path.closePath();
+    // Wound the other way so the hole stays empty under the nonzero fill rule
+    path.moveTo(width / 2 + inner, height / 2);
+    path.arc(width / 2, height / 2, inner, 0, Math.PI * 2, true);
+    path.closePath();
+  },
+});
+
+registerShape({
+  type: MaskType.RECTANGLE,
+  params: [{ key: 'cornerRadius', label: 'Corner Radius', min: 0, max: 0.5, step: 0.01, default: 0, display: 'percent' }],
+  square: false,
+  trace: (path, width, height, { cornerRadius }) => traceRoundedRect(path, width, height, cornerRadius * Math.min(width, height)),
+});
+
+registerShape({
+  type: MaskType.POLYGON,
+  params: [{ key: 'sides', label: 'Sides', min: 3, max: 12, step: 1, default: 6, display: 'count' }],
+  square: true,
+  trace: (path, width, height, { sides }) =>
+    traceRadial(path, width / 2, height / 2, Math.round(sides), [Math.min(width, height) / 2]),
+});
+
+registerShape({
+  type: MaskType.STAR,
+  params: [
+    { key: 'points', label: 'Points', min: 3, max: 12, step: 1, default: 5, display: 'count' },
+    { key: 'innerRatio', label: 'Inner Radius', min: 0.1, max: 0.95, step: 0.01, default: 0.5, display: 'percent' },
+  ],
+  square: true,
+  trace: (path, width, height, { points, innerRatio }) => {
+    const radius = Math.min(width, height) / 2;
+    traceRadial(path, width / 2, height / 2, Math.round(points), [radius, radius * innerRatio]);
+  },
+});
+
+registerShape({
+  type: MaskType.HEART,
+  params: [],
+  square: true,
+  trace: (path, width, height) => {
+    const minDim = Math.min(width, height);
+    traceHeart(path, width / 2, height / 2 - minDim / 2, minDim, minDim);
+  },
+});
+
+registerShape({
+  type: MaskType.SPLIT,
+  params: [{ key: 'angle', label: 'Angle', min: 0, max: 360, step: 1, default: 135, display: 'degrees' }],
+  square: false,
+  trace: (path, width, height, { angle }) => traceSplit(path, width, height, angle),
+});
+
+registerShape({
+  type: MaskType.FILMSTRIP,
+  params: [{ key: 'frames', label: 'Frames', min: 1, max: 8, step: 1, default: 3, display: 'count' }],
+  square: false,
+  trace: (path, width, height, { frames }) => traceFilmstrip(path, width, height, Math.round(frames)),
+});
@@ -0,0 +1,78 @@
+import { Point, StrokePoint } from '../types';
+
+// Finished strokes keep detail down to this fraction of the document's shorter side
+export const SIMPLIFY_TOLERANCE = 0.0008;
+
+export interface CurveSegment {
+  from: StrokePoint;
+  cp1: Point;
+  cp2: Point;
+  to: StrokePoint;
+}
+
+// Pulls the pen towards the pointer instead of onto it. 0 follows exactly, values near 1 lag and smooth heavily.
+export const stabilizePoint = (previous: StrokePoint, target: StrokePoint, smoothing: number): StrokePoint => {
+  const follow = 1 - Math.min(Math.max(smoothing, 0), 0.95);
+  return {
+    x: previous.x + (target.x - previous.x) * follow,
+    y: previous.y + (target.y - previous.y) * follow,
+    pressure: previous.pressure + (target.pressure - previous.pressure) * follow,
+  };
+};
+
+// Points are stored normalized, so distances are measured after stretching back to document pixels
+const distanceToSegment = (p: Point, a: Point, b: Point, width: number, height: number) => {
+  const px = (p.x - a.x) * width;
+  const py = (p.y - a.y) * height;
+  const dx = (b.x - a.x) * width;
+  const dy = (b.y - a.y) * height;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.min(Math.max((px * dx + py * dy) / lengthSq, 0), 1);
+  return Math.hypot(px - dx * t, py - dy * t);
+};
+
+// Ramer–Douglas–Peucker: drops points that stray less than tolerance (document px) from the simplified line
+export const simplifyStroke = (points: StrokePoint[], tolerance: number, width: number, height: number): StrokePoint[] => {
+  if (points.length <= 2) return points;
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative so very long strokes can't overflow the stack
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end], width, height);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true;
+      ranges.push([start, index], [index, end]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+};
+
+// Catmull-Rom spline through every point, as cubic bezier segments. The ends repeat their point.
+export const getCurveSegments = (points: StrokePoint[]): CurveSegment[] => {
+  const segments: CurveSegment[] = [];
+  for (let i = 1; i < points.length; i++) {
+    const p0 = points[Math.max(i - 2, 0)];
+    const p1 = points[i - 1];
+    const p2 = points[i];
+    const p3 = points[Math.min(i + 1, points.length - 1)];
+    segments.push({
+      from: p1,
+      cp1: { x: p1.x + (p2.x - p0.x) / 6, y: p1.y + (p2.y - p0.y) / 6 },
+      cp2: { x: p2.x - (p3.x - p1.x) / 6, y: p2.y - (p3.y - p1.y) / 6 },
+      to: p2,
+    });
+  }
+  return segments;
+};
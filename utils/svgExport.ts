@@ -0,0 +1,222 @@
+import { BrushStroke, CustomFont, ImageLayer, MaskAssets, MaskCombineMode, MaskItem, MaskType } from '../types';
+import { PathSink, tracePath } from './drawUtils';
+import { anchorsToPixels, getItemMatrix, getLengthUnit, isBrushType, strokeToPixels } from './maskUtils';
+import { traceMaskShape } from './shapeRegistry';
+import { getCurveSegments } from './strokeUtils';
+import { getSvgFrame } from './svgShape';
+import { getArcPoint, getLineRadius, layoutText } from './textLayout';
+
+const fmt = (n: number) => `${Math.round(n * 100) / 100}`;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Records canvas path calls as SVG path data
+export class SvgPathBuilder implements PathSink {
+  private commands: string[] = [];
+
+  moveTo(x: number, y: number) {
+    this.commands.push(`M${fmt(x)} ${fmt(y)}`);
+  }
+
+  lineTo(x: number, y: number) {
+    this.commands.push(`L${fmt(x)} ${fmt(y)}`);
+  }
+
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number) {
+    this.commands.push(`C${fmt(cp1x)} ${fmt(cp1y)} ${fmt(cp2x)} ${fmt(cp2y)} ${fmt(x)} ${fmt(y)}`);
+  }
+
+  rect(x: number, y: number, w: number, h: number) {
+    this.commands.push(`M${fmt(x)} ${fmt(y)}H${fmt(x + w)}V${fmt(y + h)}H${fmt(x)}Z`);
+  }
+
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false) {
+    let sweep = counterclockwise ? startAngle - endAngle : endAngle - startAngle;
+    sweep = sweep >= Math.PI * 2 ? Math.PI * 2 : ((sweep % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+    const direction = counterclockwise ? -1 : 1;
+    const pointAt = (angle: number) => `${fmt(x + Math.cos(angle) * radius)} ${fmt(y + Math.sin(angle) * radius)}`;
+
+    this.commands.push(`${this.commands.length ? 'L' : 'M'}${pointAt(startAngle)}`);
+    // SVG arcs can't describe a full turn, so split into half turns at most
+    const segments = Math.max(1, Math.ceil(sweep / Math.PI));
+    for (let i = 1; i <= segments; i++) {
+      const angle = startAngle + direction * (sweep * i) / segments;
+      this.commands.push(`A${fmt(radius)} ${fmt(radius)} 0 0 ${counterclockwise ? 0 : 1} ${pointAt(angle)}`);
+    }
+  }
+
+  closePath() {
+    this.commands.push('Z');
+  }
+
+  toString() {
+    return this.commands.join('');
+  }
+}
+
+const getItemTransform = (item: MaskItem, width: number, height: number) => {
+  // The linear part is made of small factors, so it keeps more precision than pixel values
+  const factor = (n: number) => `${Math.round(n * 1e6) / 1e6}`;
+  const { a, b, c, d, e, f } = getItemMatrix(item, width, height);
+  return `matrix(${factor(a)} ${factor(b)} ${factor(c)} ${factor(d)} ${fmt(e)} ${fmt(f)})`;
+};
+
+// Brushes become plain stroked curves at their average pressure width
+const strokeToSvg = (stroke: BrushStroke) => {
+  const { points } = stroke;
+  if (points.length === 0) return '';
+  const pressure = points.reduce((sum, p) => sum + (p.pressure ?? 1), 0) / points.length;
+  const width = stroke.size * pressure;
+  const opacity = stroke.opacity < 1 ? ` opacity="${fmt(stroke.opacity)}"` : '';
+
+  if (points.length === 1) {
+    return `<circle cx="${fmt(points[0].x)}" cy="${fmt(points[0].y)}" r="${fmt(width / 2)}" fill="currentColor"${opacity}/>`;
+  }
+  const d = `M${fmt(points[0].x)} ${fmt(points[0].y)}` + getCurveSegments(points)
+    .map(({ cp1, cp2, to }) => `C${fmt(cp1.x)} ${fmt(cp1.y)} ${fmt(cp2.x)} ${fmt(cp2.y)} ${fmt(to.x)} ${fmt(to.y)}`)
+    .join('');
+  return `<path d="${d}" fill="none" stroke="currentColor" stroke-width="${fmt(width)}" ` +
+    `stroke-linecap="round" stroke-linejoin="round"${opacity}/>`;
+};
+
+// One <text> per line, laid out like the canvas. Curved lines follow arc paths, defined next to the text.
+const textToSvg = (item: MaskItem, width: number, height: number) => {
+  const style = item.textStyle;
+  const fontSize = item.fontSize * getLengthUnit(width, height);
+  const layout = layoutText(item.text, fontSize, style);
+  const cx = width / 2;
+  const cy = height / 2;
+  const attributes = `font-family="${escapeXml(`"${style.fontFamily}", sans-serif`)}" font-weight="${style.fontWeight}" ` +
+    `font-style="${style.italic ? 'italic' : 'normal'}" font-size="${fmt(fontSize)}" ` +
+    `letter-spacing="${fmt(style.letterSpacing * fontSize)}" dominant-baseline="central" xml:space="preserve" fill="currentColor"`;
+
+  return layout.lines.map((line, i) => {
+    const text = escapeXml(line.text);
+    const radius = getLineRadius(layout, line, style);
+    if (radius === null) {
+      return `<text x="${fmt(cx + line.start)}" y="${fmt(cy + line.y)}" ${attributes}>${text}</text>`;
+    }
+    if (!line.text) return '';
+
+    // Left to right over the top for upward arcs, under the bottom for downward ones, in half turns at most
+    const end = line.start + line.width;
+    const segments = Math.max(1, Math.ceil(line.width / radius / Math.PI));
+    const point = (s: number) => {
+      const { x, y } = getArcPoint(layout, radius, s, style, cx, cy);
+      return `${fmt(x)} ${fmt(y)}`;
+    };
+    let d = `M${point(line.start)}`;
+    for (let k = 1; k <= segments; k++) {
+      d += `A${fmt(radius)} ${fmt(radius)} 0 0 ${style.arc > 0 ? 1 : 0} ${point(line.start + ((end - line.start) * k) / segments)}`;
+    }
+    const id = `${item.id}-arc${i}`;
+    return `<path id="${escapeXml(id)}" d="${d}" fill="none"/>` +
+      `<text ${attributes}><textPath href="#${escapeXml(id)}">${text}</textPath></text>`;
+  }).join('');
+};
+
+const shapeToSvg = (item: MaskItem, width: number, height: number) => {
+  if (item.shape === MaskType.TEXT) return textToSvg(item, width, height);
+  if (item.shape === MaskType.SVG) {
+    if (!item.svg) return '';
+    const { x, y, scale } = getSvgFrame(item.svg, width, height);
+    const paths = item.svg.paths.map(({ d, transform }) =>
+      `<path d="${escapeXml(d)}"${transform ? ` transform="matrix(${transform.join(' ')})"` : ''}/>`
+    ).join('');
+    return `<g transform="translate(${fmt(x)} ${fmt(y)}) scale(${scale}) translate(${-item.svg.viewBox.x} ${-item.svg.viewBox.y})" ` +
+      `fill="currentColor" fill-rule="${item.svg.fillRule}">${paths}</g>`;
+  }
+  const path = new SvgPathBuilder();
+  if (item.shape === MaskType.PATH) {
+    if (!item.closed || item.anchors.length === 0) return '';
+    tracePath(path, anchorsToPixels(item.anchors, width, height), true);
+  } else if (!traceMaskShape(path, item.shape, width, height, item.params)) {
+    return '';
+  }
+  return `<path d="${path}" fill="currentColor"/>`;
+};
+
+// Builds a layer's mask as vector SVG: white geometry on transparent, combined in stack order through SVG masks.
+// Only geometry is exported; feathering and soft brush edges are raster effects and are left out.
+// Raster items are embedded as images, and so are loaded fonts that text items use.
+export const layerMaskToSvg = (
+  layer: ImageLayer,
+  width: number,
+  height: number,
+  assets: MaskAssets,
+  scale = 1,
+  fonts: CustomFont[] = []
+): string => {
+  const defs: string[] = [];
+  let nextId = 0;
+
+  const families = new Set(layer.items.filter(item => item.visible && item.shape === MaskType.TEXT)
+    .map(item => item.textStyle.fontFamily));
+  const faces = fonts.filter(font => families.has(font.family) && assets[font.assetId])
+    .map(font => `@font-face{font-family:"${font.family}";src:url(${assets[font.assetId]})}`);
+  if (faces.length) defs.push(`<style>${escapeXml(faces.join(''))}</style>`);
+
+  const define = (content: string) => {
+    const id = `m${nextId++}`;
+    defs.push(`<g id="${id}">${content}</g>`);
+    return id;
+  };
+
+  const defineMask = (content: string) => {
+    const id = `m${nextId++}`;
+    defs.push(
+      `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">${content}</mask>`
+    );
+    return id;
+  };
+
+  // Mask content that keeps everything except the referenced group
+  const invertedMask = (id: string) =>
+    defineMask(`<rect width="${width}" height="${height}" fill="white"/><use href="#${id}" color="black"/>`);
+
+  const combine = (current: string, step: string, mode: MaskCombineMode): string => {
+    if (!step) return mode === MaskCombineMode.INTERSECT ? '' : current;
+    switch (mode) {
+      case MaskCombineMode.SUBTRACT:
+        return `<g mask="url(#${invertedMask(define(step))})">${current}</g>`;
+      case MaskCombineMode.INTERSECT: {
+        const maskId = defineMask(`<use href="#${define(step)}" color="white"/>`);
+        return `<g mask="url(#${maskId})">${current}</g>`;
+      }
+      case MaskCombineMode.EXCLUDE: {
+        const stepId = define(step);
+        const currentId = define(current);
+        return `<g mask="url(#${invertedMask(stepId)})"><use href="#${currentId}"/></g>` +
+          `<g mask="url(#${invertedMask(currentId)})"><use href="#${stepId}"/></g>`;
+      }
+      default:
+        return current + step;
+    }
+  };
+
+  let content = '';
+  layer.items.forEach(item => {
+    if (!item.visible) return;
+    const transform = getItemTransform(item, width, height);
+    if (isBrushType(item.shape)) {
+      item.strokes.forEach(stroke => {
+        const svg = strokeToSvg(strokeToPixels(stroke, width, height));
+        content = combine(content, `<g transform="${transform}">${svg}</g>`, stroke.mode);
+      });
+    } else if (item.shape === MaskType.RASTER) {
+      // The bitmap only masks a fill, so it still takes on whatever color the combine step asks for
+      const image = assets[item.imageId];
+      const raster = image && `<rect width="${width}" height="${height}" fill="currentColor" mask="url(#${defineMask(
+        `<image href="${image}" width="${width}" height="${height}" preserveAspectRatio="none"/>`
+      )})"/>`;
+      content = combine(content, raster && `<g transform="${transform}">${raster}</g>`, item.mode);
+    } else {
+      const shape = shapeToSvg(item, width, height);
+      content = combine(content, shape && `<g transform="${transform}">${shape}</g>`, item.mode);
+    }
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width * scale)}" height="${fmt(height * scale)}" ` +
+    `viewBox="0 0 ${width} ${height}"><defs>${defs.join('')}</defs><g color="white">${content}</g></svg>`;
+};
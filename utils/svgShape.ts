@@ -0,0 +1,148 @@
+import { SvgShape } from '../types';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Elements whose outline becomes part of the mask. Anything inside these containers isn't drawn by itself.
+const SHAPE_SELECTOR = 'path, rect, circle, ellipse, polygon';
+const HIDDEN_CONTAINERS = 'defs, clipPath, mask, symbol, pattern, marker';
+
+const PATH_DATA = /^[Mm][\sMmLlHhVvCcSsQqTtAaZz0-9.,eE+-]*$/;
+
+// Markup starts with a tag; bare path data with a moveto
+export const isSvgText = (text: string) => {
+  const trimmed = text.trim();
+  return /^(<\?xml|<svg)/i.test(trimmed) || (PATH_DATA.test(trimmed) && /\d/.test(trimmed));
+};
+
+const num = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? '') || 0;
+
+const toPathData = (el: Element): string => {
+  switch (el.tagName.toLowerCase()) {
+    case 'path':
+      return el.getAttribute('d') ?? '';
+    case 'rect': {
+      const x = num(el, 'x');
+      const y = num(el, 'y');
+      return `M${x} ${y}H${x + num(el, 'width')}V${y + num(el, 'height')}H${x}Z`;
+    }
+    case 'circle':
+    case 'ellipse': {
+      const cx = num(el, 'cx');
+      const cy = num(el, 'cy');
+      const rx = num(el, el.tagName.toLowerCase() === 'circle' ? 'r' : 'rx');
+      const ry = num(el, el.tagName.toLowerCase() === 'circle' ? 'r' : 'ry');
+      return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+    }
+    case 'polygon': {
+      const points = (el.getAttribute('points') ?? '').trim().split(/[\s,]+/).map(parseFloat);
+      const pairs: string[] = [];
+      for (let i = 0; i + 1 < points.length; i += 2) pairs.push(`${points[i]} ${points[i + 1]}`);
+      return pairs.length ? `M${pairs.join('L')}Z` : '';
+    }
+    default:
+      return '';
+  }
+};
+
+// Combined transform of the element and its groups, up to (not including) the root <svg>
+const getTransform = (el: Element, root: Element): number[] | null => {
+  let matrix = new DOMMatrix();
+  for (let node: Element | null = el; node && node !== root; node = node.parentElement) {
+    const own = (node as SVGGraphicsElement).transform?.baseVal?.consolidate()?.matrix;
+    if (own) matrix = new DOMMatrix([own.a, own.b, own.c, own.d, own.e, own.f]).multiply(matrix);
+  }
+  return matrix.isIdentity ? null : [matrix.a, matrix.b, matrix.c, matrix.d, matrix.e, matrix.f];
+};
+
+// Bounding box of the paths, measured by briefly putting them in the page
+const measurePaths = (paths: SvgShape['paths']): SvgShape['viewBox'] => {
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('style', 'position:absolute;width:0;height:0;visibility:hidden');
+  const group = document.createElementNS(SVG_NS, 'g');
+  paths.forEach(({ d, transform }) => {
+    const path = document.createElementNS(SVG_NS, 'path');
+    path.setAttribute('d', d);
+    if (transform) path.setAttribute('transform', `matrix(${transform.join(' ')})`);
+    group.appendChild(path);
+  });
+  svg.appendChild(group);
+  document.body.appendChild(svg);
+  try {
+    const { x, y, width, height } = group.getBBox();
+    return { x, y, width, height };
+  } finally {
+    svg.remove();
+  }
+};
+
+const withBounds = (shape: Omit<SvgShape, 'viewBox'>, viewBox?: SvgShape['viewBox']): SvgShape => {
+  const box = viewBox ?? measurePaths(shape.paths);
+  if (!(box.width > 0 && box.height > 0)) throw new Error('That SVG has no area to use as a mask.');
+  return { ...shape, viewBox: box };
+};
+
+export const parseSvgMarkup = (markup: string, name = 'SVG'): SvgShape => {
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.querySelector('parsererror') || root.tagName.toLowerCase() !== 'svg') {
+    throw new Error('That file is not a readable SVG.');
+  }
+
+  const elements = Array.from(root.querySelectorAll(SHAPE_SELECTOR)).filter(el => !el.closest(HIDDEN_CONTAINERS));
+  const paths = elements
+    .map(el => ({ d: toPathData(el).trim(), transform: getTransform(el, root) }))
+    .filter(path => path.d);
+  if (paths.length === 0) throw new Error('That SVG has no shapes to use as a mask.');
+
+  // Logos are usually a single fill rule; take the first one declared, as attribute or inline style
+  const ruled = elements.find(el => el.getAttribute('fill-rule') || /fill-rule/.test(el.getAttribute('style') ?? ''));
+  const fillRule = ruled && /evenodd/.test(`${ruled.getAttribute('fill-rule')} ${ruled.getAttribute('style')}`)
+    ? 'evenodd'
+    : 'nonzero';
+
+  // The viewBox keeps the designer's padding; without one the outline is measured
+  const viewBox = root instanceof SVGSVGElement ? root.viewBox.baseVal : null;
+  const width = num(root, 'width');
+  const height = num(root, 'height');
+  const box = viewBox && viewBox.width > 0 && viewBox.height > 0
+    ? { x: viewBox.x, y: viewBox.y, width: viewBox.width, height: viewBox.height }
+    : width > 0 && height > 0 ? { x: 0, y: 0, width, height } : undefined;
+
+  return withBounds({ name, paths, fillRule }, box);
+};
+
+export const parsePathData = (d: string, name = 'Path Data'): SvgShape => {
+  const trimmed = d.trim();
+  if (!PATH_DATA.test(trimmed)) throw new Error('That is not SVG path data (it should start with M).');
+  return withBounds({ name, paths: [{ d: trimmed, transform: null }], fillRule: 'nonzero' });
+};
+
+export const parseSvgText = (text: string, name?: string): SvgShape =>
+  text.trim().startsWith('<') ? parseSvgMarkup(text, name) : parsePathData(text, name);
+
+// Where the viewBox lands in an item's width × height box: contained in the centered square on the shorter side,
+// like the built-in round shapes. Maps viewBox units v to pixels as x + (v - viewBox.x) * scale.
+export const getSvgFrame = (shape: SvgShape, width: number, height: number) => {
+  const { viewBox } = shape;
+  const scale = Math.min(width, height) / Math.max(viewBox.width, viewBox.height);
+  return {
+    x: (width - viewBox.width * scale) / 2,
+    y: (height - viewBox.height * scale) / 2,
+    scale,
+  };
+};
+
+// Parsed Path2D per shape; items share the shape object until it's replaced, so this is built once
+const pathCache = new WeakMap<SvgShape, Path2D>();
+
+export const getSvgPath2D = (shape: SvgShape): Path2D => {
+  let path = pathCache.get(shape);
+  if (!path) {
+    path = new Path2D();
+    for (const { d, transform } of shape.paths) {
+      path.addPath(new Path2D(d), transform ? new DOMMatrix(transform) : undefined);
+    }
+    pathCache.set(shape, path);
+  }
+  return path;
+};
@@ -0,0 +1,123 @@
+import { TextStyle } from '../types';
+
+export interface TextLine {
+  text: string;
+  width: number;
+  start: number; // Left end, relative to the block's center
+  y: number; // Middle of the line, relative to the block's center
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  width: number; // Widest line
+  height: number;
+  radius: number | null; // Of the middle line's circle when the text is curved
+}
+
+export const getTextFont = (fontSize: number, style: TextStyle) =>
+  `${style.italic ? 'italic ' : ''}${style.fontWeight} ${fontSize}px "${style.fontFamily}", sans-serif`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Layout runs outside of drawing too (selection bounds, SVG export), so it measures on its own context
+const getMeasureContext = () => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  return measureContext;
+};
+
+// Spaced or curved text is placed character by character; plain lines are drawn whole to keep their kerning
+const isPlaced = (style: TextStyle) => style.letterSpacing !== 0 || style.arc !== 0;
+
+const measureLine = (ctx: CanvasRenderingContext2D, text: string, spacing: number, placed: boolean) => {
+  if (!placed) return ctx.measureText(text).width;
+  const chars = Array.from(text);
+  return chars.reduce((sum, ch) => sum + ctx.measureText(ch).width, 0) + spacing * Math.max(chars.length - 1, 0);
+};
+
+// Lines stack around the block's center; alignment lines them up against the widest one
+export const layoutText = (text: string, fontSize: number, style: TextStyle): TextLayout => {
+  const ctx = getMeasureContext();
+  const spacing = style.letterSpacing * fontSize;
+  const placed = isPlaced(style);
+  if (ctx) ctx.font = getTextFont(fontSize, style);
+
+  const rows = text.split('\n');
+  const widths = rows.map(row => (ctx ? measureLine(ctx, row, spacing, placed) : row.length * fontSize * 0.6));
+  const width = Math.max(0, ...widths);
+  const advance = fontSize * style.lineHeight;
+
+  const lines = rows.map((row, i) => ({
+    text: row,
+    width: widths[i],
+    start: style.align === 'left' ? -width / 2 : style.align === 'right' ? width / 2 - widths[i] : -widths[i] / 2,
+    y: (i - (rows.length - 1) / 2) * advance,
+  }));
+
+  const arc = (Math.abs(style.arc) * Math.PI) / 180;
+  // Lines stack toward the circle's center, so strong arcs are eased until the innermost line stays half a line out
+  const minRadius = (advance * rows.length) / 2;
+  return {
+    lines,
+    width,
+    height: advance * (rows.length - 1) + fontSize,
+    radius: style.arc !== 0 && width > 0 ? Math.max(width / arc, minRadius) : null,
+  };
+};
+
+// Radius of a line's own circle. Positive arcs bend over a center below the text, so lower lines sit closer to it.
+export const getLineRadius = (layout: TextLayout, line: TextLine, style: TextStyle) =>
+  layout.radius === null ? null : layout.radius + (style.arc > 0 ? -line.y : line.y);
+
+// Point on a curved line at arc length s from the middle, and the angle to turn the glyph there
+export const getArcPoint = (layout: TextLayout, radius: number, s: number, style: TextStyle, cx: number, cy: number) => {
+  const theta = s / radius;
+  const R = layout.radius ?? 0;
+  return style.arc > 0
+    ? { x: cx + radius * Math.sin(theta), y: cy + R - radius * Math.cos(theta), angle: theta }
+    : { x: cx + radius * Math.sin(theta), y: cy - R + radius * Math.cos(theta), angle: -theta };
+};
+
+// Size of the laid out text, including how far a curve bends its ends away from the middle,
+// and how far that moves the box's center down (up for downward arcs)
+export const getTextBounds = (layout: TextLayout, fontSize: number, style: TextStyle) => {
+  if (layout.radius === null) return { width: layout.width, height: layout.height, offsetY: 0 };
+  const half = layout.width / layout.radius / 2;
+  const chord = half >= Math.PI / 2 ? 2 * layout.radius : 2 * layout.radius * Math.sin(half);
+  const sagitta = layout.radius * (1 - Math.cos(Math.min(half, Math.PI)));
+  return { width: chord + fontSize, height: layout.height + sagitta, offsetY: (Math.sign(style.arc) * sagitta) / 2 };
+};
+
+// Draws the text centered on (cx, cy); fill style and transform come from the caller
+export const drawText = (ctx: CanvasRenderingContext2D, text: string, fontSize: number, style: TextStyle, cx: number, cy: number) => {
+  const layout = layoutText(text, fontSize, style);
+  const spacing = style.letterSpacing * fontSize;
+  ctx.font = getTextFont(fontSize, style);
+  ctx.textBaseline = 'middle';
+
+  layout.lines.forEach(line => {
+    if (!isPlaced(style)) {
+      ctx.textAlign = 'left';
+      ctx.fillText(line.text, cx + line.start, cy + line.y);
+      return;
+    }
+
+    ctx.textAlign = 'center';
+    const radius = getLineRadius(layout, line, style);
+    let s = line.start;
+    for (const ch of Array.from(line.text)) {
+      const w = ctx.measureText(ch).width;
+      const mid = s + w / 2;
+      s += w + spacing;
+      if (radius === null) {
+        ctx.fillText(ch, cx + mid, cy + line.y);
+      } else {
+        const { x, y, angle } = getArcPoint(layout, radius, mid, style, cx, cy);
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(angle);
+        ctx.fillText(ch, 0, 0);
+        ctx.restore();
+      }
+    }
+  });
+};
@@ -0,0 +1,153 @@
+import { MaskItem, Point } from '../types';
+import { fromItemSpace, getMaskItemBounds, MAX_SKEW } from './maskUtils';
+
+export type TransformHandle = 'move' | 'scale' | 'scaleX' | 'scaleY' | 'rotate' | 'pivot';
+
+// What a drag started from; every move is applied to this snapshot so rounding never accumulates
+export interface TransformDrag {
+  handle: TransformHandle;
+  start: Point; // Canvas pixels
+  item: MaskItem;
+  pivot: Point; // Canvas pixels
+}
+
+export interface TransformHandles {
+  corners: Point[]; // Clockwise from top-left
+  edges: Point[]; // Side midpoints: top, right, bottom, left
+  rotate: Point;
+  topCenter: Point;
+  pivot: Point;
+}
+
+const ROTATION_SNAP = 15;
+// Without Shift (as with a finger) rotation still settles on a snap angle within this many degrees of it
+const ROTATION_MAGNET = 3;
+const MIN_SCALE = 0.02;
+
+// Handle positions in canvas pixels. The rotation handle sits `rotateOffset` pixels above the top edge.
+export const getTransformHandles = (
+  item: MaskItem,
+  pivot: Point, // Item space
+  width: number,
+  height: number,
+  rotateOffset: number
+): TransformHandles => {
+  const { left, top, right, bottom } = getMaskItemBounds(item, width, height);
+  const corners = [
+    { x: left, y: top }, { x: right, y: top }, { x: right, y: bottom }, { x: left, y: bottom },
+  ].map(p => fromItemSpace(item, p, width, height));
+  const edges = corners.map((p, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return { x: (p.x + next.x) / 2, y: (p.y + next.y) / 2 };
+  });
+  const topCenter = edges[0];
+  const angle = (item.rotation * Math.PI) / 180;
+  return {
+    corners,
+    edges,
+    topCenter,
+    rotate: { x: topCenter.x + Math.sin(angle) * rotateOffset, y: topCenter.y - Math.cos(angle) * rotateOffset },
+    pivot: fromItemSpace(item, pivot, width, height),
+  };
+};
+
+// Handle within radius of pos; anywhere else starts a move. The pivot sits where shapes are usually grabbed
+// to move them, so it only catches presses right on it.
+export const hitTestTransform = (handles: TransformHandles, pos: Point, radius: number): TransformHandle => {
+  const isNear = (p: Point, r = radius) => Math.hypot(p.x - pos.x, p.y - pos.y) <= r;
+  if (isNear(handles.rotate)) return 'rotate';
+  if (handles.corners.some(p => isNear(p))) return 'scale';
+  const edge = handles.edges.findIndex(p => isNear(p));
+  if (edge !== -1) return edge % 2 === 0 ? 'scaleY' : 'scaleX';
+  if (isNear(handles.pivot, radius / 2)) return 'pivot';
+  return 'move';
+};
+
+const rotateAround = (point: Point, pivot: Point, degrees: number): Point => {
+  const angle = (degrees * Math.PI) / 180;
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  return {
+    x: pivot.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+    y: pivot.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+  };
+};
+
+// Ratio of a to b along one axis, 1 when the drag started on the pivot's line
+const axisRatio = (a: number, b: number) => (Math.abs(b) < 1e-6 ? 1 : a / b);
+
+// Item changes for dragging a handle to pos. Scaling and rotating happen about the pivot, so the item's
+// center swings around it. Corners scale freely and side handles along one axis; Shift keeps corner scaling
+// proportional, keeps moves on one axis and snaps rotation to 15° steps; without it rotation only snaps close to them.
+export const applyTransformDrag = (
+  drag: TransformDrag,
+  pos: Point,
+  shiftKey: boolean,
+  width: number,
+  height: number
+): Partial<MaskItem> => {
+  const { item, start, pivot } = drag;
+  const center = { x: item.x * width, y: item.y * height };
+
+  switch (drag.handle) {
+    case 'move': {
+      let dx = pos.x - start.x;
+      let dy = pos.y - start.y;
+      if (shiftKey) {
+        if (Math.abs(dx) > Math.abs(dy)) dy = 0;
+        else dx = 0;
+      }
+      return { x: item.x + dx / width, y: item.y + dy / height };
+    }
+    case 'scale':
+    case 'scaleX':
+    case 'scaleY': {
+      // Measured along the item's own (rotated) axes
+      const from = rotateAround(start, pivot, -item.rotation);
+      const to = rotateAround(pos, pivot, -item.rotation);
+      let ratioX = drag.handle === 'scaleY' ? 1 : axisRatio(to.x - pivot.x, from.x - pivot.x);
+      let ratioY = drag.handle === 'scaleX' ? 1 : axisRatio(to.y - pivot.y, from.y - pivot.y);
+      if (drag.handle === 'scale' && shiftKey) {
+        const startDistance = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+        ratioX = ratioY = startDistance === 0 ? 1 : Math.hypot(pos.x - pivot.x, pos.y - pivot.y) / startDistance;
+      }
+      const scaleX = Math.max(item.scaleX * ratioX, MIN_SCALE);
+      const scaleY = Math.max(item.scaleY * ratioY, MIN_SCALE);
+      ratioX = scaleX / item.scaleX;
+      ratioY = scaleY / item.scaleY;
+
+      // Stretching a skewed shape along the rotated axes also changes how steep its skew looks
+      const skew = (degrees: number, ratio: number) => {
+        const adjusted = (Math.atan(Math.tan((degrees * Math.PI) / 180) * ratio) * 180) / Math.PI;
+        return Math.min(Math.max(adjusted, -MAX_SKEW), MAX_SKEW);
+      };
+      const local = rotateAround(center, pivot, -item.rotation);
+      const moved = rotateAround(
+        { x: pivot.x + (local.x - pivot.x) * ratioX, y: pivot.y + (local.y - pivot.y) * ratioY },
+        pivot,
+        item.rotation
+      );
+      return {
+        scaleX,
+        scaleY,
+        skewX: skew(item.skewX, ratioX / ratioY),
+        skewY: skew(item.skewY, ratioY / ratioX),
+        x: moved.x / width,
+        y: moved.y / height,
+      };
+    }
+    case 'rotate': {
+      const startAngle = Math.atan2(start.y - pivot.y, start.x - pivot.x);
+      const angle = Math.atan2(pos.y - pivot.y, pos.x - pivot.x);
+      let rotation = item.rotation + ((angle - startAngle) * 180) / Math.PI;
+      const snapped = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+      if (shiftKey || Math.abs(rotation - snapped) <= ROTATION_MAGNET) rotation = snapped;
+      rotation = ((rotation % 360) + 360) % 360;
+      const moved = rotateAround(center, pivot, rotation - item.rotation);
+      return { rotation, x: moved.x / width, y: moved.y / height };
+    }
+    default:
+      // The pivot only lives in the editor, see CanvasLayer
+      return {};
+  }
+};